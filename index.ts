@@ -1,428 +1,4755 @@
-import { Type } from "@sinclair/typebox";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { appendFile, mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import { homedir } from "node:os";
+import { basename, dirname, extname, join, resolve } from "node:path";
+import { inflateSync } from "node:zlib";
+import { Type, type TObject, type TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
 
-type PipedriveConfig = {
+type RetryConfig = {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  requestsPerSecond?: number;
+  burst?: number;
+};
+
+type AuditConfig = {
+  enabled?: boolean;
+  path?: string;
+};
+
+type CacheConfig = {
+  enabled?: boolean;
+  ttlSeconds?: number; // default for every metadata kind
+  ttl?: Record<string, number>; // per kind, e.g. { "users": 3600, "fields": 86400 }
+  persist?: boolean; // keep the cache across restarts
+  path?: string;
+};
+
+type SchedulingConfig = {
+  timezone?: string; // used when the owner's Pipedrive profile has none
+  workdays?: number[]; // 0 = Sunday
+  workHours?: string; // "09:00-17:00", in each user's timezone
+  seriesPath?: string;
+};
+
+type WebhookConfig = {
+  enabled?: boolean;
+  port?: number;
+  host?: string;
+  path?: string;
+  username?: string;
+  password?: string;
+  publicUrl?: string; // URL Pipedrive calls, e.g. a tunnel or reverse proxy in front of the listener
+  forwardUrl?: string; // optional endpoint that receives each normalized event (e.g. an OpenClaw hook)
+  forwardToken?: string;
+};
+
+type OAuthConfig = {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  accessToken?: string;
+  tokenPath?: string; // where refreshed tokens are persisted
+};
+
+type OAuthTokens = {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number; // epoch ms; 0 when unknown
+  seeded_from?: string; // the configured refresh token this chain of refreshes started from
+};
+
+type AccountConfig = {
   apiKey?: string;
+  oauth?: OAuthConfig;
   domain?: string;
   siteUrl?: string; // backwards compat alias for domain (not documented)
 };
 
-export default function register(api: { pluginConfig: unknown; registerTool: (...args: any[]) => void }) {
-  const cfg = api.pluginConfig as PipedriveConfig;
-  const domain = cfg.domain || cfg.siteUrl; // accept both domain and siteUrl
+type ResolvedAccount = { domain: string; apiKey?: string; oauth?: OAuthConfig };
+
+const OAUTH_TOKEN_URL = "https://oauth.pipedrive.com/oauth/token";
+// Refresh slightly early so a token never expires mid-request
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+type PipedriveConfig = AccountConfig & {
+  accounts?: Record<string, AccountConfig>;
+  defaultAccount?: string;
+  retry?: RetryConfig;
+  readOnly?: boolean; // register only search/get/list tools
+  confirmDestructive?: boolean; // deletes need a preview + confirm_token round trip
+  audit?: AuditConfig;
+  webhooks?: WebhookConfig;
+  duplicateCheck?: boolean; // create_person/create_organization look for existing matches first
+  cache?: CacheConfig;
+  scheduling?: SchedulingConfig;
+};
+
+type ToolResult = { content: { type: string; text: string }[]; isError?: boolean };
+
+type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: TObject;
+  dryRunReport?: boolean; // bulk tools: a dry run returns the tool's own report instead of every captured request
+  destructive?: boolean; // deletes, merges and bulk updates (not creates): preview + confirm_token when confirmDestructive is set
+  execute: (id: string, params: any) => Promise<ToolResult>;
+};
+
+type CapturedRequest = { method: string; url: string; body?: unknown; current?: unknown };
+
+// Per-call state that pipedriveRequest reads without it being threaded through every tool.
+// In dry_run and preview mode, mutating requests are captured instead of sent.
+type ToolCall = {
+  tool: string;
+  id: string;
+  account: string;
+  mode: "execute" | "dry_run" | "preview";
+  captured: CapturedRequest[];
+};
+
+const READ_TOOL = /^pipedrive_(search|get|list)_/;
+// Read-only tools whose names don't follow the search/get/list pattern
+const EXTRA_READ_TOOLS = new Set([
+  "pipedrive_audit_log",
+  "pipedrive_download_file",
+  "pipedrive_pipeline_report",
+  "pipedrive_find_duplicates",
+  "pipedrive_export_records",
+  "pipedrive_cache_clear",
+  "pipedrive_run_filter",
+  "pipedrive_search",
+  "pipedrive_find_free_slots",
+]);
+const ACTIVITY_TOOL = /activit/;
+
+// Name alternatives added next to ID parameters, so callers can say stage: "Negotiation" instead of stage_id
+const NAMED_PARAMS: Record<string, { idParam: string; description: string }> = {
+  pipeline: { idParam: "pipeline_id", description: "Pipeline name, instead of pipeline_id" },
+  stage: {
+    idParam: "stage_id",
+    description: "Stage name, instead of stage_id (add pipeline if the name exists in several pipelines)",
+  },
+  owner: { idParam: "owner_id", description: "Owner name or email, instead of owner_id" },
+};
+const CONFIRM_TTL_MS = 5 * 60_000;
+const LEAD_CONVERSION_POLLS = 30; // one per second
+
+type AuditEntry = {
+  timestamp: string;
+  account: string;
+  tool?: string;
+  tool_call_id?: string;
+  method: string;
+  endpoint: string;
+  entity: string;
+  entity_id?: number | string; // leads and lead labels use UUIDs
+  request_body?: unknown;
+  before?: unknown;
+  status: number;
+  error?: string;
+};
+
+class PipedriveApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: string
+  ) {
+    super(`Pipedrive API error (${status}): ${body}`);
+  }
+}
+
+type ErrorCategory = "auth" | "permission" | "not_found" | "validation" | "rate_limit" | "server";
+
+// A failure the caller can act on; the tool wrapper returns it as an isError result with field and hint
+class ToolError extends Error {
+  constructor(
+    readonly category: ErrorCategory,
+    message: string,
+    readonly details: { field?: string; hint?: string; status?: number } = {}
+  ) {
+    super(message);
+  }
+}
+
+const RECORD_ID = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/;
+
+// "/deals/5" -> deals/5, "/mailbox/mailThreads/7" -> mailThreads/7, "/deals/5/products/2" -> deals/5
+function auditTarget(endpoint: string): { entity: string; entityId?: number | string } {
+  const segments = endpoint.split("?")[0].split("/").filter(Boolean);
+  if (segments[0] === "mailbox") segments.shift();
+  const id = segments[1];
+  if (!id || !RECORD_ID.test(id)) return { entity: segments[0] ?? "" };
+  return { entity: segments[0], entityId: /^\d+$/.test(id) ? Number(id) : id };
+}
+
+// The one record a non-POST request changes, if any: "/deals/5" -> /deals/5, "/persons/5/merge" -> /persons/5
+function snapshotPath(endpoint: string) {
+  const match = endpoint.match(/^((?:\/mailbox)?\/\w+\/([\w-]+))(\/merge)?$/);
+  return match && RECORD_ID.test(match[2]) ? match[1] : undefined;
+}
+
+// "activities" -> "activity", "deals" -> "deal", so filters accept either form
+function singularize(word: string) {
+  return word.toLowerCase().replace(/ies$/, "y").replace(/s$/, "");
+}
+
+const DEFAULT_MAX_ITEMS = 500;
+
+// Shared by every list tool; consumed by pipedriveList and never sent to the API
+const fetchAllParams = {
+  fetch_all: Type.Optional(
+    Type.Boolean({ description: "Follow pagination and return all pages merged into one result (capped by max_items)" })
+  ),
+  max_items: Type.Optional(
+    Type.Number({ description: `Maximum items to collect when fetch_all is true (default ${DEFAULT_MAX_ITEMS})` })
+  ),
+};
+
+// Shared by the deal, person and organization create/update tools; names and labels become keys and option IDs
+const customFieldsParams = {
+  custom_fields: Type.Optional(
+    Type.Record(Type.String(), Type.Unknown(), {
+      description: 'Custom field values keyed by field name, e.g. { "Lead Source": "Referral" }. Options can be given by label',
+    })
+  ),
+};
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+// Client-side token bucket: every request waits for a token, so parallel tool calls
+// share one budget instead of bursting into Pipedrive's rate limiter together.
+function createTokenBucket(ratePerSecond: number, capacity: number) {
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let blockedUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  function take(): Promise<void> {
+    const turn = queue.then(async () => {
+      for (;;) {
+        const now = Date.now();
+        if (now < blockedUntil) {
+          await sleep(blockedUntil - now);
+          continue;
+        }
+        tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * ratePerSecond);
+        lastRefill = now;
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(((1 - tokens) / ratePerSecond) * 1000);
+      }
+    });
+    queue = turn.catch(() => {});
+    return turn;
+  }
+
+  // Called when Pipedrive says the budget is exhausted; holds every caller until reset.
+  function pauseUntil(timestamp: number) {
+    blockedUntil = Math.max(blockedUntil, timestamp);
+    tokens = 0;
+    // Refill from the end of the pause, not across it, or the bucket is full again the moment it ends
+    lastRefill = Math.max(lastRefill, blockedUntil);
+  }
+
+  return { take, pauseUntil };
+}
+
+// The top-level apiKey/domain pair is the "default" account, so single-account configs keep working
+function resolveAccounts(cfg: PipedriveConfig) {
+  const accounts = new Map<string, ResolvedAccount>();
+  const legacyDomain = cfg.domain || cfg.siteUrl; // accept both domain and siteUrl
+  if ((cfg.apiKey || cfg.oauth) && legacyDomain) {
+    accounts.set("default", { apiKey: cfg.apiKey, oauth: cfg.oauth, domain: legacyDomain });
+  }
+  for (const [name, account] of Object.entries(cfg.accounts ?? {})) {
+    const domain = account.domain || account.siteUrl;
+    if (!(account.apiKey || account.oauth) || !domain) {
+      console.warn(`[pipedrive] Skipping account "${name}": missing apiKey/oauth or domain`);
+      continue;
+    }
+    accounts.set(name, { apiKey: account.apiKey, oauth: account.oauth, domain });
+  }
+  return accounts;
+}
+
+// Key-order independent, so a confirmation matches the same parameters in any order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// Credentials that may sit in request or record bodies (webhook basic auth, tokens); never logged or echoed back
+const SECRET_FIELDS = new Set([
+  "http_auth_user",
+  "http_auth_password",
+  "api_token",
+  "password",
+  "client_secret",
+  "access_token",
+  "refresh_token",
+]);
+
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, SECRET_FIELDS.has(key) && item ? "[redacted]" : redactSecrets(item)])
+  );
+}
+
+function parseBody(body: unknown): unknown {
+  if (body instanceof FormData) {
+    // Multipart uploads: log field values and file names, not file contents
+    const fields: Record<string, string> = {};
+    body.forEach((value, key) => {
+      fields[key] = typeof value === "string" ? value : `<file ${value.name}>`;
+    });
+    return fields;
+  }
+  if (typeof body !== "string") return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function expandPath(path: string) {
+  return resolve(path.startsWith("~/") ? join(homedir(), path.slice(2)) : path);
+}
+
+// ============ TEXT EXTRACTION ============
+
+const TEXT_FILE_TYPES = new Set(["txt", "csv", "md", "json", "html", "htm", "xml", "eml", "log", "tsv", "yaml", "yml"]);
+
+function decodePdfString(literal: string): string {
+  const simple: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", "\r": "", "\n": "" };
+  return literal.slice(1, -1).replace(/\\([0-7]{1,3}|[\s\S])/g, (_, escape: string) => {
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    return simple[escape] ?? escape; // \( \) \\ and unknown escapes stand for the character itself
+  });
+}
+
+// Text-showing operators inside BT/ET blocks; good enough for PDFs generated from documents,
+// not for scanned images or fonts with custom encodings
+function textFromContentStream(content: string): string {
+  let text = "";
+  let pending: string[] = [];
+  const numbers: number[] = [];
+  const tokens = content.matchAll(/\((?:\\.|[^\\)])*\)|-?\d*\.?\d+|[A-Za-z'"*]+|\[|\]/g);
+  for (const [token] of tokens) {
+    if (token.startsWith("(")) {
+      pending.push(decodePdfString(token));
+    } else if (/^-?\d*\.?\d+$/.test(token)) {
+      const value = Number(token);
+      numbers.push(value);
+      // Large negative kerning inside TJ arrays separates words
+      if (value < -200 && pending.length) pending.push(" ");
+    } else if (token === "Tj" || token === "TJ") {
+      text += pending.join("");
+      pending = [];
+    } else if (token === "'" || token === '"') {
+      text += "\n" + pending.join("");
+      pending = [];
+    } else if (token === "Td" || token === "TD") {
+      text += numbers[numbers.length - 1] !== 0 ? "\n" : " ";
+    } else if (token === "T*" || token === "ET") {
+      text += "\n";
+    }
+    if (!/^-?\d/.test(token)) numbers.length = 0;
+  }
+  return text;
+}
+
+function extractPdfText(pdf: Buffer): string {
+  const source = pdf.toString("latin1");
+  const chunks: string[] = [];
+  const streams = source.matchAll(/<<((?:(?!stream|endobj)[\s\S])*?)>>\s*stream\r?\n([\s\S]*?)\r?\nendstream/g);
+  for (const [, dictionary, body] of streams) {
+    let content: string;
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        content = inflateSync(Buffer.from(body, "latin1")).toString("latin1");
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue; // images and other encodings carry no text
+    } else {
+      content = body;
+    }
+    const text = textFromContentStream(content);
+    if (text.trim()) chunks.push(text);
+  }
+  return chunks
+    .join("\n")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+// Notes and email bodies are stored as HTML; agents only need the words
+function htmlToText(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, "") // includes Outlook's conditional blocks
+    .replace(/<(head|script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code[0] !== "#") return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    })
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function truncate(text: string, maxChars: number) {
+  return text.length > maxChars ? `${text.slice(0, maxChars).trimEnd()}…` : text;
+}
+
+// Retry-After may be delta-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// ============ MAIL BODIES ============
+
+// Where quoted history starts in HTML replies (Gmail, Outlook, Apple Mail, Thunderbird)
+const HTML_QUOTE_START =
+  /<div[^>]+class="[^"]*gmail_quote|<div[^>]+id="(divRplyFwdMsg|appendonsend)"|<blockquote[^>]+type="cite"|<div[^>]+class="[^"]*moz-cite-prefix/i;
+
+// Lines that introduce quoted history in plain text
+const QUOTE_HEADERS = [
+  /^on\b.{0,200}\bwrote:$/i,
+  /^am\b.{0,200}\bschrieb.{0,100}:$/i,
+  /^le\b.{0,200}\ba écrit ?:$/i,
+  /^-{2,} ?(original message|forwarded message|ursprüngliche nachricht) ?-{2,}$/i,
+  /^_{10,}$/,
+];
+
+const SIGNATURE_START = [/^-- ?$/, /^sent from my \w+/i, /^sent from (mail|outlook|yahoo)\b/i, /^get outlook for /i];
+const SIGN_OFF = /^((best|kind|warm|many)\s+)?(regards|wishes|thanks|thank you|cheers|best|sincerely|greetings)\b[\w ]{0,20}[,!.]?$/i;
+
+// Reduces an email body to what the sender wrote this time: no markup, quoted history or signature
+function cleanMailBody(body: string): { text: string; quoted_removed: boolean; signature_removed: boolean } {
+  const quoteAt = body.search(HTML_QUOTE_START);
+  let lines = htmlToText(quoteAt > 0 ? body.slice(0, quoteAt) : body).split("\n");
+  let quoted = quoteAt > 0;
+  const hasContent = (candidate: string[]) => candidate.some((line) => line.trim());
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // "On Tue, 4 Mar 2025 at 10:02, Ann <ann@example.com> wrote:" is often wrapped over two lines
+    const wrapped = `${line} ${lines[i + 1]?.trim() ?? ""}`;
+    const outlookHeader = /^from:\s/i.test(line) && lines.slice(i + 1, i + 5).some((next) => /^(sent|date):\s/i.test(next.trim()));
+    const header = outlookHeader || QUOTE_HEADERS.some((pattern) => pattern.test(line) || pattern.test(wrapped));
+    if (header && hasContent(lines.slice(0, i))) {
+      lines = lines.slice(0, i);
+      quoted = true;
+      break;
+    }
+  }
+  const unquoted = lines.filter((line) => !line.trimStart().startsWith(">"));
+  if (unquoted.length < lines.length && hasContent(unquoted)) {
+    lines = unquoted;
+    quoted = true;
+  }
+
+  let signature = false;
+  const delimiter = lines.findIndex((line, i) => i > 0 && SIGNATURE_START.some((pattern) => pattern.test(line.trim())));
+  // A sign-off near the end, followed by a few short lines (name, title, phone), starts the signature
+  const signOff = lines.findIndex(
+    (line, i) => i > 0 && i >= lines.length - 12 && SIGN_OFF.test(line.trim()) && lines.slice(i + 1).filter((rest) => rest.trim()).length <= 8
+  );
+  const cut = [delimiter, signOff].filter((index) => index > 0 && hasContent(lines.slice(0, index)));
+  if (cut.length) {
+    lines = lines.slice(0, Math.min(...cut));
+    signature = true;
+  }
+
+  const text = lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { text, quoted_removed: quoted, signature_removed: signature };
+}
+
+// ============ CSV ============
+
+// RFC 4180: quoted fields may contain the delimiter, doubled quotes and line breaks
+function parseCsv(text: string, delimiter?: string): Record<string, string>[] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const sep = delimiter ?? [",", ";", "\t"].sort((a, b) => firstLine.split(b).length - firstLine.split(a).length)[0];
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === sep) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length) rows.push([...row, field]);
+
+  const [header = [], ...records] = rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+  const columns = header.map((name) => name.trim());
+  return records.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])));
+}
+
+function toCsv(rows: Record<string, unknown>[], columns = [...new Set(rows.flatMap((row) => Object.keys(row)))]) {
+  const cell = (value: unknown) => {
+    const text = value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.map(cell).join(","), ...rows.map((row) => columns.map((column) => cell(row[column])).join(","))].join("\n") + "\n";
+}
+
+// ============ METADATA CACHE ============
+
+// GET endpoints whose responses rarely change: "/stages?pipeline_id=1" -> stages, "/dealFields" -> dealFields.
+// Nested paths such as /stages/5/deals are record data, not metadata.
+const METADATA_ENDPOINT =
+  /^\/(pipelines|stages|users|currencies|activityTypes|leadLabels|leadSources|\w+Fields)(\/[\w-]+)?(\?.*)?$/;
+
+const DEFAULT_CACHE_TTL_SECONDS = 600;
+
+function metadataCategory(endpoint: string) {
+  return endpoint.match(METADATA_ENDPOINT)?.[1];
+}
+
+// Deleting a pipeline deletes its stages, so a pipeline change also invalidates stages
+function invalidatedCategories(endpoint: string): string[] {
+  const segment = endpoint.split("?")[0].split("/").filter(Boolean)[0] ?? "";
+  return segment === "pipelines" ? ["pipelines", "stages"] : [segment];
+}
+
+// ============ WEBHOOK EVENTS ============
+
+type CrmChangeEvent = {
+  id: string;
+  account?: string; // configured account the delivery came from
+  received_at: string;
+  timestamp?: string;
+  entity: string;
+  action: "create" | "change" | "delete" | "merge";
+  entity_id?: number | string;
+  user_id?: number;
+  company_id?: number;
+  changes: Record<string, { previous: unknown; current: unknown }>;
+  current?: Record<string, unknown>;
+  previous?: Record<string, unknown>;
+  summary: string;
+};
+
+const MAX_WEBHOOK_EVENTS = 500;
+const MAX_WEBHOOK_BODY_BYTES = 1_000_000;
+
+// v1 webhooks say added/updated/deleted/merged, v2 says create/change/delete
+const WEBHOOK_ACTIONS: Record<string, CrmChangeEvent["action"]> = {
+  added: "create",
+  create: "create",
+  updated: "change",
+  change: "change",
+  deleted: "delete",
+  delete: "delete",
+  merged: "merge",
+};
+
+function numericOrString(value: unknown): number | string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return /^\d+$/.test(String(value)) ? Number(value) : String(value);
+}
+
+// Accepts both webhook payload versions:
+//   v2: { meta: { action, entity, entity_id, timestamp, id }, data, previous }
+//   v1: { meta: { action, object, id, timestamp }, current, previous }
+function normalizeWebhookEvent(payload: unknown, receivedAt = new Date()): CrmChangeEvent {
+  if (!isPlainObject(payload) || !isPlainObject(payload.meta)) throw new Error("Payload has no meta object");
+  const meta = payload.meta;
+  const action = WEBHOOK_ACTIONS[String(meta.action)];
+  const entity = String(meta.entity ?? meta.object ?? "");
+  if (!action || !entity) throw new Error(`Unsupported webhook event: ${meta.action}.${entity}`);
+
+  const current = (isPlainObject(payload.data) ? payload.data : isPlainObject(payload.current) ? payload.current : undefined) as
+    | Record<string, unknown>
+    | undefined;
+  const previous = isPlainObject(payload.previous) ? payload.previous : undefined;
+  const isV2 = "entity" in meta;
+
+  // v2 "previous" only holds the fields that changed; v1 holds the full record, so diff it
+  const changes: CrmChangeEvent["changes"] = {};
+  if (action === "change" && previous) {
+    for (const [field, before] of Object.entries(previous)) {
+      const after = current?.[field];
+      if (isV2 || stableStringify(before) !== stableStringify(after)) changes[field] = { previous: before, current: after };
+    }
+  }
+
+  const entityId = numericOrString(isV2 ? meta.entity_id : meta.id) ?? numericOrString(current?.id ?? previous?.id);
+  const rawTimestamp = meta.timestamp;
+  const timestamp =
+    typeof rawTimestamp === "number"
+      ? new Date(rawTimestamp * (rawTimestamp < 1e12 ? 1000 : 1)).toISOString()
+      : typeof rawTimestamp === "string"
+        ? rawTimestamp
+        : undefined;
+
+  const label = `${entity} ${entityId ?? ""}`.trim();
+  const record = current ?? previous;
+  const name = record?.title ?? record?.name ?? record?.subject;
+  const subject = name ? `${label} "${name}"` : label;
+  const changed = Object.keys(changes);
+  const summary =
+    action === "change"
+      ? `${subject} ${
+          changes.stage_id ? `moved from stage ${changes.stage_id.previous} to ${changes.stage_id.current}` : "changed"
+        }${changed.length ? ` (fields: ${changed.join(", ")})` : ""}`
+      : `${subject} ${action === "create" ? "created" : action === "delete" ? "deleted" : "merged"}`;
+
+  return {
+    id: String((isV2 && meta.id) || `${entity}-${entityId}-${receivedAt.getTime()}`),
+    received_at: receivedAt.toISOString(),
+    timestamp,
+    entity,
+    action,
+    entity_id: entityId,
+    user_id: numericOrString(meta.user_id) as number | undefined,
+    company_id: numericOrString(meta.company_id) as number | undefined,
+    changes,
+    current,
+    previous,
+    summary,
+  };
+}
+
+function safeEqual(a: string, b: string) {
+  // Hash first so the comparison doesn't leak the expected length
+  const hash = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(hash(a), hash(b));
+}
+
+// ============ PIPELINE REPORT ============
+
+type ReportDeal = {
+  id: number;
+  value?: number | null;
+  currency?: string;
+  status: string;
+  stage_id: number;
+  pipeline_id: number;
+  add_time: string;
+  stage_change_time?: string | null;
+  close_time?: string | null;
+  won_time?: string | null;
+  expected_close_date?: string | null;
+  probability?: number | null;
+};
+
+type ReportStage = { id: number; name: string; order_nr: number; pipeline_id: number; deal_probability?: number | null };
+
+const DAY_MS = 86_400_000;
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]) {
+  return values.length ? round(values.reduce((sum, value) => sum + value, 0) / values.length, 1) : null;
+}
+
+function ratio(part: number, whole: number) {
+  return whole ? round(part / whole, 4) : null;
+}
+
+// Everything here is derived from the deals' current state, without stage history:
+// a deal counts as having reached a stage if it is won, or its current/lost-in stage is that stage or later.
+function buildPipelineReport(
+  deals: ReportDeal[],
+  stages: ReportStage[],
+  pipelines: { id: number; name: string }[],
+  now = Date.now()
+) {
+  const value = (deal: ReportDeal) => deal.value ?? 0;
+  const days = (from: string, to: number) => (to - Date.parse(from)) / DAY_MS;
+
+  return pipelines.map((pipeline) => {
+    const pipelineStages = stages.filter((stage) => stage.pipeline_id === pipeline.id).sort((a, b) => a.order_nr - b.order_nr);
+    const position = new Map(pipelineStages.map((stage, index) => [stage.id, index]));
+    const probability = new Map(pipelineStages.map((stage) => [stage.id, stage.deal_probability ?? 100]));
+    const pipelineDeals = deals.filter((deal) => deal.pipeline_id === pipeline.id);
+    const open = pipelineDeals.filter((deal) => deal.status === "open");
+    const won = pipelineDeals.filter((deal) => deal.status === "won");
+    const lost = pipelineDeals.filter((deal) => deal.status === "lost");
+    const weighted = (deal: ReportDeal) => (value(deal) * (deal.probability ?? probability.get(deal.stage_id) ?? 100)) / 100;
+
+    const stageRows = pipelineStages.map((stage, index) => {
+      const inStage = open.filter((deal) => deal.stage_id === stage.id);
+      return {
+        stage_id: stage.id,
+        name: stage.name,
+        open_deals: inStage.length,
+        open_value: round(inStage.reduce((sum, deal) => sum + value(deal), 0)),
+        weighted_value: round(inStage.reduce((sum, deal) => sum + weighted(deal), 0)),
+        reached: pipelineDeals.filter((deal) => deal.status === "won" || (position.get(deal.stage_id) ?? -1) >= index).length,
+        avg_days_in_stage: average(inStage.map((deal) => days(deal.stage_change_time || deal.add_time, now))),
+      };
+    });
+
+    const conversion = stageRows.slice(1).map((row, index) => ({
+      from: stageRows[index].name,
+      to: row.name,
+      rate: ratio(row.reached, stageRows[index].reached),
+    }));
+    const last = stageRows[stageRows.length - 1];
+    if (last) conversion.push({ from: last.name, to: "won", rate: ratio(won.length, last.reached) });
+
+    const forecast = new Map<string, { deals: number; value: number; weighted_value: number }>();
+    for (const deal of open) {
+      const month = deal.expected_close_date?.slice(0, 7) || "unscheduled";
+      const bucket = forecast.get(month) ?? { deals: 0, value: 0, weighted_value: 0 };
+      bucket.deals++;
+      bucket.value = round(bucket.value + value(deal));
+      bucket.weighted_value = round(bucket.weighted_value + weighted(deal));
+      forecast.set(month, bucket);
+    }
+
+    const winRate = ratio(won.length, won.length + lost.length);
+    const daysToWin = average(won.map((deal) => days(deal.add_time, Date.parse(deal.won_time || deal.close_time || deal.add_time))));
+    const avgWonValue = won.length ? won.reduce((sum, deal) => sum + value(deal), 0) / won.length : 0;
+
+    return {
+      pipeline_id: pipeline.id,
+      name: pipeline.name,
+      deals: pipelineDeals.length,
+      open: open.length,
+      won: won.length,
+      lost: lost.length,
+      win_rate: winRate,
+      open_value: round(open.reduce((sum, deal) => sum + value(deal), 0)),
+      weighted_value: round(open.reduce((sum, deal) => sum + weighted(deal), 0)),
+      won_value: round(won.reduce((sum, deal) => sum + value(deal), 0)),
+      avg_won_value: round(avgWonValue),
+      avg_days_to_win: daysToWin,
+      // Expected won value per day: open deals x average won value x win rate / sales cycle length
+      sales_velocity_per_day:
+        winRate !== null && daysToWin ? round((open.length * avgWonValue * winRate) / daysToWin) : null,
+      stages: stageRows,
+      conversion,
+      forecast: [...forecast.entries()]
+        .sort(([a], [b]) => (a === "unscheduled" ? 1 : b === "unscheduled" ? -1 : a.localeCompare(b)))
+        .map(([month, bucket]) => ({ month, ...bucket })),
+    };
+  });
+}
+
+// ============ STALE DEALS ============
+
+type StaleDealInput = ReportDeal & {
+  title: string;
+  owner_id: number;
+  update_time: string;
+  person_id?: number | null;
+  org_id?: number | null;
+};
+
+type StaleActivity = { id: number; deal_id?: number | null; subject: string; type: string; due_date?: string | null };
+
+type StaleStage = ReportStage & { is_deal_rot_enabled?: boolean; days_to_rotten?: number | null };
+
+type StaleFlag = "overdue_activity" | "no_next_activity" | "rotting" | "past_expected_close" | "no_recent_update";
+
+// Ordered by urgency; the first flag a deal has decides its suggested action
+const STALE_FLAGS: Record<StaleFlag, { weight: number; action: string }> = {
+  overdue_activity: { weight: 3, action: "Complete or reschedule the overdue activity" },
+  no_next_activity: { weight: 3, action: "Schedule a next step" },
+  rotting: { weight: 2, action: "Move the deal to the next stage or mark it lost" },
+  past_expected_close: { weight: 2, action: "Confirm timing with the customer and update the expected close date" },
+  no_recent_update: { weight: 1, action: "Check in with the customer and log the outcome" },
+};
+
+function findStaleDeals(
+  deals: StaleDealInput[],
+  activities: StaleActivity[],
+  stages: StaleStage[],
+  staleDays: number,
+  now = Date.now()
+) {
+  const today = new Date(now).toISOString().slice(0, 10);
+  const stageById = new Map(stages.map((stage) => [stage.id, stage]));
+  const activitiesByDeal = new Map<number, StaleActivity[]>();
+  for (const activity of activities) {
+    if (!activity.deal_id) continue;
+    const list = activitiesByDeal.get(activity.deal_id) ?? [];
+    list.push(activity);
+    activitiesByDeal.set(activity.deal_id, list);
+  }
+
+  const rows = deals.map((deal) => {
+    const stage = stageById.get(deal.stage_id);
+    const pending = (activitiesByDeal.get(deal.id) ?? []).sort((a, b) =>
+      (a.due_date ?? "9999").localeCompare(b.due_date ?? "9999")
+    );
+    const overdue = pending.filter((activity) => activity.due_date && activity.due_date < today);
+    const upcoming = pending.find((activity) => !activity.due_date || activity.due_date >= today);
+    const daysSinceUpdate = Math.floor((now - Date.parse(deal.update_time)) / DAY_MS);
+    const daysInStage = Math.floor((now - Date.parse(deal.stage_change_time || deal.add_time)) / DAY_MS);
+
+    const flags: StaleFlag[] = [];
+    if (overdue.length) flags.push("overdue_activity");
+    if (!upcoming) flags.push("no_next_activity");
+    if (stage?.is_deal_rot_enabled && stage.days_to_rotten && daysInStage >= stage.days_to_rotten) flags.push("rotting");
+    if (deal.expected_close_date && deal.expected_close_date < today) flags.push("past_expected_close");
+    if (daysSinceUpdate >= staleDays) flags.push("no_recent_update");
+
+    return {
+      deal_id: deal.id,
+      title: deal.title,
+      owner_id: deal.owner_id,
+      stage: stage?.name ?? deal.stage_id,
+      value: deal.value ?? 0,
+      currency: deal.currency,
+      expected_close_date: deal.expected_close_date,
+      days_since_update: daysSinceUpdate,
+      days_in_stage: daysInStage,
+      overdue_activities: overdue.map(({ id, subject, due_date }) => ({ id, subject, due_date })),
+      next_activity: upcoming && { id: upcoming.id, subject: upcoming.subject, type: upcoming.type, due_date: upcoming.due_date },
+      flags,
+      score: flags.reduce((sum, flag) => sum + STALE_FLAGS[flag].weight, 0),
+      suggested_action: flags.length ? STALE_FLAGS[flags[0]].action : undefined,
+    };
+  });
+
+  // Most problems first; among equals the bigger deal matters more
+  return rows.filter((row) => row.flags.length).sort((a, b) => b.score - a.score || b.value - a.value);
+}
+
+// ============ DUPLICATES ============
+
+type DuplicateEntity = "person" | "organization";
+
+type DuplicateRecord = {
+  id: number;
+  name: string;
+  nameKey: string;
+  emails: string[];
+  phones: string[];
+  domains: string[]; // company email domains (persons) or website domain (organizations)
+  org_id?: number;
+  add_time?: string;
+};
+
+type DuplicateMatch = { ids: [number, number]; confidence: number; reasons: string[] };
+
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "yahoo.com",
+  "hotmail.com",
+  "outlook.com",
+  "live.com",
+  "msn.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "gmx.de",
+  "gmx.net",
+  "web.de",
+  "proton.me",
+  "protonmail.com",
+  "mail.ru",
+  "yandex.ru",
+]);
+
+const COMPANY_SUFFIXES = new Set([
+  "inc",
+  "llc",
+  "ltd",
+  "limited",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "gmbh",
+  "ag",
+  "sa",
+  "sas",
+  "sarl",
+  "bv",
+  "nv",
+  "oy",
+  "ab",
+  "as",
+  "plc",
+  "pty",
+  "srl",
+  "spa",
+]);
+
+const NAME_MATCH_THRESHOLD = 0.8;
+const DUPLICATE_GUARD_CONFIDENCE = 0.6;
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+// E.164 when the number says which country it is in ("+" or "00" prefix, or a default country code
+// for national numbers starting with 0); otherwise just the digits, which still match identical input
+function normalizePhone(phone: string, defaultCountryCode?: string) {
+  const digits = phone.replace(/\D/g, "");
+  if (!digits) return "";
+  if (phone.trim().startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("00")) return `+${digits.slice(2)}`;
+  if (defaultCountryCode && digits.startsWith("0")) return `+${defaultCountryCode.replace(/\D/g, "")}${digits.slice(1)}`;
+  return digits;
+}
+
+function normalizeName(name: string, entity: DuplicateEntity) {
+  const tokens = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(Boolean);
+  // "Smith, John" and "John Smith" are the same person; "Acme Inc." and "ACME" the same company
+  return entity === "person"
+    ? tokens.sort().join(" ")
+    : tokens.filter((token) => !COMPANY_SUFFIXES.has(token)).join(" ");
+}
+
+function domainOf(value: string) {
+  const host = value.includes("@") ? value.split("@").pop()! : value.replace(/^[a-z]+:\/\//i, "").split(/[/?#]/)[0];
+  return host.toLowerCase().replace(/^www\./, "");
+}
+
+// Sørensen–Dice coefficient over character bigrams
+function nameSimilarity(a: string, b: string) {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const bigrams = (value: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+      const bigram = value.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const left = bigrams(a);
+  let overlap = 0;
+  for (const [bigram, count] of bigrams(b)) overlap += Math.min(count, left.get(bigram) ?? 0);
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+}
+
+// Accepts records from list/get ({ value } objects) as well as from search (plain strings)
+function toDuplicateRecord(entity: DuplicateEntity, raw: Record<string, any>, defaultCountryCode?: string): DuplicateRecord {
+  const values = (list: unknown): string[] =>
+    Array.isArray(list)
+      ? list.map((entry) => (isPlainObject(entry) ? entry.value : entry)).filter((value): value is string => !!value)
+      : [];
+  const emails = values(raw.emails).map(normalizeEmail);
+  const domains =
+    entity === "person"
+      ? emails.map(domainOf).filter((domain) => !FREE_MAIL_DOMAINS.has(domain))
+      : typeof raw.website === "string" && raw.website
+        ? [domainOf(raw.website)]
+        : [];
+  return {
+    id: raw.id,
+    name: raw.name ?? "",
+    nameKey: normalizeName(raw.name ?? "", entity),
+    emails,
+    phones: values(raw.phones)
+      .map((phone) => normalizePhone(phone, defaultCountryCode))
+      .filter(Boolean),
+    domains: [...new Set(domains)],
+    org_id: raw.org_id ?? raw.organization?.id ?? undefined,
+    add_time: raw.add_time,
+  };
+}
+
+function scoreDuplicate(entity: DuplicateEntity, a: DuplicateRecord, b: DuplicateRecord) {
+  const signals: [number, string][] = [];
+  const shared = (x: string[], y: string[]) => x.find((value) => y.includes(value));
+
+  const email = shared(a.emails, b.emails);
+  if (email) signals.push([0.95, `same email ${email}`]);
+  const phone = shared(a.phones, b.phones);
+  if (phone) signals.push([0.9, `same phone ${phone}`]);
+
+  const similarity = nameSimilarity(a.nameKey, b.nameKey);
+  const domain = shared(a.domains, b.domains);
+  if (entity === "organization" && domain) signals.push([0.9, `same website domain ${domain}`]);
+  if (similarity >= NAME_MATCH_THRESHOLD) {
+    signals.push([similarity * (entity === "person" ? 0.7 : 0.85), similarity === 1 ? "same name" : `similar name (${round(similarity)})`]);
+    // A common name alone is weak evidence for a person; the same company makes it strong
+    if (entity === "person" && a.org_id && a.org_id === b.org_id) signals.push([0.5, "same organization"]);
+    else if (entity === "person" && domain) signals.push([0.5, `same company domain ${domain}`]);
+  }
+
+  // Independent signals combine like probabilities: 1 - (1 - p1)(1 - p2)...
+  const confidence = 1 - signals.reduce((remaining, [p]) => remaining * (1 - p), 1);
+  return { confidence: round(confidence), reasons: signals.map(([, reason]) => reason) };
+}
+
+function findDuplicateClusters(entity: DuplicateEntity, records: DuplicateRecord[], minConfidence: number) {
+  // Only compare records that share an email, phone, domain or name token
+  const blocks = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    const keys = [
+      ...record.emails.map((email) => `e:${email}`),
+      ...record.phones.map((phone) => `p:${phone}`),
+      ...record.domains.map((domain) => `d:${domain}`),
+      ...record.nameKey
+        .split(" ")
+        .filter((token) => token.length >= 3)
+        .map((token) => `n:${token}`),
+    ];
+    for (const key of new Set(keys)) {
+      const block = blocks.get(key) ?? [];
+      block.push(index);
+      blocks.set(key, block);
+    }
+  });
+
+  const matches: DuplicateMatch[] = [];
+  const compared = new Set<string>();
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = `${block[i]}:${block[j]}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+        const a = records[block[i]];
+        const b = records[block[j]];
+        const { confidence, reasons } = scoreDuplicate(entity, a, b);
+        if (confidence >= minConfidence) matches.push({ ids: [a.id, b.id], confidence, reasons });
+      }
+    }
+  }
+
+  // Union-find over the matches, so A~B and B~C end up in one cluster
+  const parent = new Map<number, number>();
+  const root = (id: number): number => {
+    const up = parent.get(id) ?? id;
+    if (up === id) return id;
+    const top = root(up);
+    parent.set(id, top);
+    return top;
+  };
+  for (const { ids } of matches) parent.set(root(ids[0]), root(ids[1]));
+
+  const byId = new Map(records.map((record) => [record.id, record]));
+  const clusters = new Map<number, DuplicateMatch[]>();
+  for (const match of matches) {
+    const key = root(match.ids[0]);
+    clusters.set(key, [...(clusters.get(key) ?? []), match]);
+  }
+
+  return [...clusters.values()]
+    .map((clusterMatches) => {
+      const ids = [...new Set(clusterMatches.flatMap((match) => match.ids))].sort((a, b) => a - b);
+      const members = ids.map((id) => byId.get(id)!);
+      // The oldest record usually carries the most history, so suggest keeping it
+      const keep = [...members].sort((a, b) => (a.add_time ?? "").localeCompare(b.add_time ?? "") || a.id - b.id)[0];
+      return {
+        confidence: Math.max(...clusterMatches.map((match) => match.confidence)),
+        keep_id: keep.id,
+        records: members.map(({ id, name, emails, phones, org_id, add_time }) => ({ id, name, emails, phones, org_id, add_time })),
+        matches: clusterMatches,
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// ============ IMPORT ============
+
+type ImportEntity = "person" | "org" | "deal";
+
+type ImportRow = {
+  owner_email?: string;
+  person: Record<string, unknown>;
+  org: Record<string, unknown>;
+  deal: Record<string, unknown>;
+};
+
+type ImportRowResult = {
+  row: number;
+  status: "ok" | "failed";
+  org_action?: string;
+  org_id?: number | null;
+  org_match?: string; // the existing record reused, and why it matched
+  person_action?: string;
+  person_id?: number | null;
+  person_match?: string;
+  deal_action?: string;
+  deal_id?: number | null;
+  error?: string;
+};
+
+const IMPORT_ENTITIES: Record<string, ImportEntity> = {
+  person: "person",
+  persons: "person",
+  contact: "person",
+  org: "org",
+  organization: "org",
+  organisation: "org",
+  company: "org",
+  deal: "deal",
+};
+
+// Anything else mapped to an entity is treated as a custom field name
+const IMPORT_STANDARD_FIELDS: Record<ImportEntity, string[]> = {
+  person: ["name", "email", "phone"],
+  org: ["name", "address"],
+  deal: ["title", "value", "currency", "stage_id", "pipeline_id", "expected_close_date", "status"],
+};
+
+const IMPORT_NUMERIC_FIELDS = new Set(["value", "stage_id", "pipeline_id"]);
+const IMPORT_RESULT_COLUMNS = [
+  "row",
+  "status",
+  "org_action",
+  "org_id",
+  "org_match",
+  "person_action",
+  "person_id",
+  "person_match",
+  "deal_action",
+  "deal_id",
+  "error",
+];
+const MAX_IMPORT_ROWS = 5000;
+const IMPORT_MATCH_CONFIDENCE = 0.85;
+
+// "Organization.Name" -> org/name, "person.Lead Source" -> person/Lead Source, "owner_email" -> owner
+function parseImportTarget(target: string): { entity: ImportEntity | "owner"; field: string } | undefined {
+  const trimmed = target.trim();
+  if (/^owner[._ ]email$/i.test(trimmed)) return { entity: "owner", field: "email" };
+  const dot = trimmed.indexOf(".");
+  const entity = dot > 0 ? IMPORT_ENTITIES[trimmed.slice(0, dot).toLowerCase()] : undefined;
+  if (!entity) return undefined;
+  const field = trimmed.slice(dot + 1).trim();
+  const standard = IMPORT_STANDARD_FIELDS[entity].find((name) => name === field.toLowerCase());
+  return field ? { entity, field: standard ?? field } : undefined;
+}
+
+function mapImportRow(row: Record<string, string>, mapping: Record<string, string>): ImportRow {
+  const mapped: ImportRow = { person: {}, org: {}, deal: {} };
+  for (const [column, target] of Object.entries(mapping)) {
+    const value = row[column]?.trim();
+    const parsed = parseImportTarget(target);
+    if (!value || !parsed) continue;
+    if (parsed.entity === "owner") {
+      mapped.owner_email = value;
+      continue;
+    }
+    const values = mapped[parsed.entity];
+    if (IMPORT_STANDARD_FIELDS[parsed.entity].includes(parsed.field)) {
+      if (IMPORT_NUMERIC_FIELDS.has(parsed.field) && Number.isNaN(Number(value))) {
+        throw new Error(`Column "${column}" must be a number, got "${value}"`);
+      }
+      values[parsed.field] = IMPORT_NUMERIC_FIELDS.has(parsed.field) ? Number(value) : value;
+    } else {
+      values.custom_fields = { ...(values.custom_fields as object), [parsed.field]: value };
+    }
+  }
+  return mapped;
+}
+
+// ============ ITEM SEARCH ============
+
+const SEARCH_ITEM_TYPES = ["deal", "person", "organization", "lead", "product", "file"];
+const SEARCH_FIELDS = ["address", "code", "custom_fields", "email", "name", "notes", "organization_name", "person_name", "phone", "title", "description"];
+
+type SearchHit = { type: string; id: number | string; title: string; context: string; score: number; related?: boolean };
+
+// One line a person can scan: "25000 EUR, open, stage Negotiation, org Acme, person Ann Lee"
+function searchHitContext(item: Record<string, any>): string {
+  const list = (values: unknown) =>
+    Array.isArray(values) ? values.map((value) => (isPlainObject(value) ? value.value : value)).filter(Boolean).join(" / ") : values;
+  const amount = isPlainObject(item.value) ? item.value.amount : item.value;
+  const parts = [
+    amount !== undefined && amount !== null ? `${amount} ${item.currency ?? item.value?.currency ?? ""}`.trim() : undefined,
+    item.status,
+    item.code ? `code ${item.code}` : undefined,
+    item.stage?.name ? `stage ${item.stage.name}` : undefined,
+    list(item.emails),
+    list(item.phones),
+    item.address,
+    item.deal?.title ? `deal ${item.deal.title}` : undefined,
+    item.organization?.name ? `org ${item.organization.name}` : undefined,
+    item.person?.name ? `person ${item.person.name}` : undefined,
+    item.owner?.name ? `owner ${item.owner.name}` : undefined,
+  ];
+  return parts.filter((part) => part !== undefined && part !== null && part !== "").join(", ");
+}
+
+// Exact title matches first, then Pipedrive's score; the same record found twice is listed once
+function rankSearchHits(
+  items: { result_score?: number; item?: Record<string, any> }[],
+  term: string,
+  related: { item?: Record<string, any> }[] = []
+): SearchHit[] {
+  const wanted = term.trim().toLowerCase();
+  const hits = new Map<string, SearchHit>();
+  const add = (item: Record<string, any> | undefined, score: number, isRelated: boolean) => {
+    if (!item?.type || item.id === undefined) return;
+    const key = `${item.type}:${item.id}`;
+    if (hits.has(key) && hits.get(key)!.score >= score) return;
+    hits.set(key, {
+      type: item.type,
+      id: item.id,
+      title: item.title ?? item.name ?? "",
+      context: searchHitContext(item),
+      score: round(score, 3),
+      ...(isRelated ? { related: true } : {}),
+    });
+  };
+  for (const { result_score, item } of items) add(item, result_score ?? 0, false);
+  for (const { item } of related) if (!hits.has(`${item?.type}:${item?.id}`)) add(item, 0, true);
+
+  const exact = (hit: SearchHit) => (hit.title.toLowerCase() === wanted ? 1 : 0);
+  return [...hits.values()].sort(
+    (a, b) =>
+      Number(!!a.related) - Number(!!b.related) ||
+      exact(b) - exact(a) ||
+      b.score - a.score ||
+      SEARCH_ITEM_TYPES.indexOf(a.type) - SEARCH_ITEM_TYPES.indexOf(b.type)
+  );
+}
+
+// ============ NAME RESOLUTION ============
+
+type NamedOption = { id: number | string; names: string[]; label: string };
+
+// Exact (case-insensitive) name or ID first, then a unique partial match; anything else is an error listing the options
+function pickByName(kind: string, options: NamedOption[], value: string): NamedOption["id"] {
+  const wanted = value.trim().toLowerCase();
+  const exact = options.filter(
+    (option) => String(option.id) === wanted || option.names.some((name) => name?.toLowerCase() === wanted)
+  );
+  const matches = exact.length
+    ? exact
+    : options.filter((option) => option.names.some((name) => name?.toLowerCase().includes(wanted)));
+  if (matches.length === 1) return matches[0].id;
+
+  const list = (items: NamedOption[]) =>
+    items
+      .slice(0, 50)
+      .map((option) => option.label)
+      .join(", ") + (items.length > 50 ? ", ..." : "");
+  if (matches.length > 1) throw new Error(`${kind} "${value}" is ambiguous. Matches: ${list(matches)}`);
+  throw new Error(`Unknown ${kind} "${value}". Valid options: ${list(options)}`);
+}
+
+type FieldEntity = "deal" | "person" | "organization" | "activity";
+
+type FieldDefinition = {
+  id?: number;
+  key: string;
+  name: string;
+  field_type: string;
+  options?: { id: number | string; label: string }[];
+};
+
+// Custom field keys are 40-character hashes; built-in fields use readable names
+const CUSTOM_FIELD_KEY = /^[0-9a-f]{40}$/;
+
+// ============ SCHEDULING ============
+
+const WEEKDAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const DEFAULT_WORKDAYS = [1, 2, 3, 4, 5];
+const DEFAULT_WORK_HOURS = "09:00-17:00";
+const DEFAULT_ACTIVITY_MINUTES = 30; // also what an existing activity without a duration blocks
+const MAX_SERIES_OCCURRENCES = 100;
+
+type Recurrence = { every: "day" | "weekday" | "week" | "month"; interval?: number; count?: number; until?: string };
+
+function assertTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(`Unknown timezone "${timezone}". Use an IANA name like Europe/Berlin or America/New_York`);
+  }
+}
+
+// Wall-clock date, time and weekday (0 = Sunday) of an instant in a timezone
+function zonedDateTime(ms: number, timezone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(ms))
+      .map((part) => [part.type, part.value])
+  );
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return { date, time: `${parts.hour}:${parts.minute}`, weekday: new Date(`${date}T00:00:00Z`).getUTCDay() };
+}
+
+// The instant a wall-clock time in a timezone refers to. A time skipped by a DST change moves
+// forward by the gap (02:30 -> 03:30); a time that occurs twice means the first occurrence.
+function zonedToUtc(date: string, time: string, timezone: string): number {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  const offsetAt = (ms: number) => {
+    const seen = zonedDateTime(ms, timezone);
+    return Date.parse(`${seen.date}T${seen.time}:00Z`) - ms;
+  };
+  // The offsets a day either side cover any DST change around this time
+  const offsets = [offsetAt(wall - DAY_MS), offsetAt(wall + DAY_MS)];
+  const matches = offsets
+    .map((offset) => wall - offset)
+    .filter((ms) => {
+      const seen = zonedDateTime(ms, timezone);
+      return `${seen.date}T${seen.time}` === `${date}T${time}`;
+    });
+  // In a gap no offset fits; the one in force before the change lands after it, shifted by the gap
+  return matches.length ? Math.min(...matches) : wall - Math.min(...offsets);
+}
+
+function shiftDate(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function addBusinessDays(date: string, days: number, workdays: number[]) {
+  let current = date;
+  for (let added = 0; added < days; ) {
+    current = shiftDate(current, 1);
+    if (workdays.includes(weekdayOf(current))) added++;
+  }
+  return current;
+}
+
+// "3pm" -> 15:00, "9:30 am" -> 09:30, "15:45" -> 15:45
+function parseTimeOfDay(text: string): string | undefined {
+  const value = text.trim().toLowerCase();
+  if (value === "noon") return "12:00";
+  if (value === "midnight") return "00:00";
+  const match = value.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) return undefined;
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (match[3] === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return undefined;
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+// "HH:MM", "45", "45m", "1h", "1h30m", "90 min" -> minutes
+function parseDuration(text: string): number {
+  const value = text.trim().toLowerCase();
+  const clock = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const units = value.match(/^(?:(\d+)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?)?)?)?$/);
+  if (/^\d+$/.test(value)) return Number(value);
+  if (units && (units[1] || units[2])) return Number(units[1] ?? 0) * 60 + Number(units[2] ?? 0);
+  throw new Error(`Invalid duration "${text}". Use HH:MM, minutes, or e.g. 1h30m`);
+}
+
+function formatDuration(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+// Natural dates in the given timezone: "next tuesday 3pm", "in 2 business days", "tomorrow at 9:30",
+// "2025-03-04 14:00", "in 3 hours". Weekday names mean the next such day after today.
+function parseWhen(text: string, timezone: string, workdays = DEFAULT_WORKDAYS, now = Date.now()): { date: string; time?: string } {
+  const today = zonedDateTime(now, timezone);
+  let value = text.trim().toLowerCase().replace(/\s+/g, " ").replace(/^on /, "");
+
+  const relativeTime = value.match(/^in (\d+) (hour|minute)s?$/);
+  if (relativeTime) {
+    const at = zonedDateTime(now + Number(relativeTime[1]) * (relativeTime[2] === "hour" ? 3_600_000 : 60_000), timezone);
+    return { date: at.date, time: at.time };
+  }
+
+  let time: string | undefined;
+  const timeMatch = value.match(/(?:^|[ t]|\bat )(\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}:\d{2}|noon|midnight)$/);
+  if (timeMatch) {
+    time = parseTimeOfDay(timeMatch[1]);
+    value = value.slice(0, timeMatch.index).trim();
+  }
+
+  let date: string | undefined;
+  const inDays = value.match(/^in (\d+) (business day|working day|workday|weekday|day|week|month)s?$/);
+  const weekday = value.match(/^(?:next |this )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+  if (!value || value === "today") {
+    date = today.date;
+  } else if (value === "tomorrow") {
+    date = shiftDate(today.date, 1);
+  } else if (value === "day after tomorrow") {
+    date = shiftDate(today.date, 2);
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date = value;
+  } else if (inDays) {
+    const amount = Number(inDays[1]);
+    const unit = inDays[2];
+    if (unit === "day") date = shiftDate(today.date, amount);
+    else if (unit === "week") date = shiftDate(today.date, amount * 7);
+    else if (unit === "month") date = resolveRelativeDate(`+${amount}m`, new Date(`${today.date}T00:00:00Z`));
+    else date = addBusinessDays(today.date, amount, workdays);
+  } else if (weekday) {
+    const target = WEEKDAY_NAMES.indexOf(weekday[1]);
+    date = shiftDate(today.date, ((target - today.weekday + 6) % 7) + 1);
+  } else if (value === "next week") {
+    date = shiftDate(today.date, ((1 - today.weekday + 6) % 7) + 1);
+  } else if (value === "end of week") {
+    date = shiftDate(today.date, ((workdays[workdays.length - 1] ?? 5) - today.weekday + 7) % 7);
+  } else if (value === "end of month") {
+    date = resolveRelativeDate("end_of_month", new Date(`${today.date}T00:00:00Z`));
+  }
+  if (!date || (timeMatch && !time)) {
+    throw new Error(
+      `Could not understand "${text}". Use YYYY-MM-DD, today, tomorrow, next tuesday, in 3 days, in 2 business days or in 2 hours, optionally followed by a time like 3pm or 15:30`
+    );
+  }
+  return { date, time };
+}
+
+// Local dates of a series; months keep the day of month, clamped to shorter months
+function expandRecurrence(start: string, rule: Recurrence, workdays = DEFAULT_WORKDAYS): string[] {
+  const interval = Math.max(1, Math.floor(rule.interval ?? 1));
+  if (!rule.count && !rule.until) throw new Error("recurrence needs count or until");
+  if (rule.until && !/^\d{4}-\d{2}-\d{2}$/.test(rule.until)) throw new Error("recurrence.until must be YYYY-MM-DD");
+  if (rule.count && rule.count > MAX_SERIES_OCCURRENCES) {
+    throw new Error(`A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`);
+  }
+  const limit = rule.count ?? MAX_SERIES_OCCURRENCES;
+  const dates: string[] = [];
+  for (let i = 0; dates.length < limit; i++) {
+    let date: string;
+    if (rule.every === "day") {
+      date = shiftDate(start, i * interval);
+    } else if (rule.every === "weekday") {
+      date = i === 0 ? start : addBusinessDays(dates[dates.length - 1], interval, workdays);
+    } else if (rule.every === "week") {
+      date = shiftDate(start, i * interval * 7);
+    } else if (rule.every === "month") {
+      const [year, month, day] = start.split("-").map(Number);
+      const first = new Date(Date.UTC(year, month - 1 + i * interval, 1));
+      const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+      first.setUTCDate(Math.min(day, lastDay));
+      date = first.toISOString().slice(0, 10);
+    } else {
+      throw new Error("recurrence.every must be day, weekday, week or month");
+    }
+    if (rule.until && date > rule.until) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Gaps of at least durationMs inside the windows, starting on step boundaries
+function findFreeSlots(busy: [number, number][], windows: [number, number][], durationMs: number, limit: number, stepMs = 900_000) {
+  const slots: [number, number][] = [];
+  for (const [windowStart, windowEnd] of windows) {
+    let cursor = Math.ceil(windowStart / stepMs) * stepMs;
+    while (cursor + durationMs <= windowEnd && slots.length < limit) {
+      const blocking = busy.filter(([start, end]) => start < cursor + durationMs && end > cursor);
+      if (blocking.length) {
+        cursor = Math.ceil(Math.max(...blocking.map(([, end]) => end)) / stepMs) * stepMs;
+        continue;
+      }
+      slots.push([cursor, cursor + durationMs]);
+      cursor += Math.max(durationMs, 3_600_000); // spread suggestions out
+    }
+  }
+  return slots;
+}
+
+// ============ WHERE CLAUSES ============
+
+const WHERE_OPERATORS = ["=", "!=", ">", ">=", "<", "<=", "between", "in", "contains", "empty", "not_empty"] as const;
+
+type WhereOperator = (typeof WHERE_OPERATORS)[number];
+type WhereCondition = { field: string; op?: WhereOperator; value?: unknown };
+type WhereClause = WhereCondition | { and: WhereClause[] } | { or: WhereClause[] };
+
+const whereCondition = Type.Object({
+  field: Type.String({
+    description: 'Field key or name: "value", "expected_close_date", "update_time", a custom field name, or a dot path',
+  }),
+  op: Type.Optional(
+    Type.Union(
+      WHERE_OPERATORS.map((op) => Type.Literal(op)),
+      { description: "Comparison (default =). between takes [from, to], in takes a list, empty/not_empty take no value" }
+    )
+  ),
+  value: Type.Optional(
+    Type.Unknown({
+      description:
+        'Number, string, boolean, date (YYYY-MM-DD) or relative date: today, yesterday, tomorrow, -14d, +2w, -3m, start_of_quarter, end_of_month, ...',
+    })
+  ),
+});
+
+function whereGroups<T extends TSchema>(item: T) {
+  return [Type.Object({ and: Type.Array(item) }), Type.Object({ or: Type.Array(item) })];
+}
+
+const whereClause = Type.Union([whereCondition, ...whereGroups(Type.Union([whereCondition, ...whereGroups(whereCondition)]))], {
+  description:
+    'Structured filter: a condition { field, op, value } or { and: [...] } / { or: [...] } of conditions, nested up to two levels, e.g. { "and": [{ "field": "value", "op": ">", "value": 20000 }, { "field": "update_time", "op": ">=", "value": "-14d" }] }. When listing, parts the API cannot filter on are applied to auto-paged results (up to max_items, default 5000)',
+});
+
+// Shared by list tools that accept where; consumed by listWhere and never sent to the API as is
+const whereParams = { where: Type.Optional(whereClause) };
+
+const WHERE_SCAN_LIMIT = 5000;
+
+// Equality conditions on these fields become query parameters of the v2 list endpoints
+const WHERE_API_PARAMS: Record<FieldEntity, string[]> = {
+  deal: ["owner_id", "person_id", "org_id", "pipeline_id", "stage_id", "status"],
+  person: ["owner_id", "org_id"],
+  organization: ["owner_id"],
+  activity: ["owner_id", "deal_id", "person_id", "org_id", "done"],
+};
+
+function isWhereCondition(clause: WhereClause): clause is WhereCondition {
+  return "field" in clause;
+}
+
+function validateWhere(clause: unknown): asserts clause is WhereClause {
+  if (!isPlainObject(clause)) throw new Error(`Invalid where clause ${JSON.stringify(clause)}: expected an object`);
+  if (Array.isArray(clause.and) || Array.isArray(clause.or)) {
+    for (const item of (clause.and ?? clause.or) as unknown[]) validateWhere(item);
+    return;
+  }
+  const { field, op = "=", value } = clause;
+  if (typeof field !== "string" || !field) {
+    throw new Error(`Invalid where clause ${JSON.stringify(clause)}: expected { field, op, value }, { and: [...] } or { or: [...] }`);
+  }
+  if (!WHERE_OPERATORS.includes(op as WhereOperator)) {
+    throw new Error(`Invalid where operator "${op}" for ${field}. Valid operators: ${WHERE_OPERATORS.join(", ")}`);
+  }
+  if (op === "between" && !(Array.isArray(value) && value.length === 2)) {
+    throw new Error(`where ${field} between needs a [from, to] value`);
+  }
+  if (op === "in" && !Array.isArray(value)) throw new Error(`where ${field} in needs a list value`);
+}
+
+function describeWhere(clause: WhereClause): string {
+  if (isWhereCondition(clause)) {
+    const op = clause.op ?? "=";
+    return op === "empty" || op === "not_empty" ? `${clause.field} ${op}` : `${clause.field} ${op} ${JSON.stringify(clause.value)}`;
+  }
+  const [glue, items] = "and" in clause ? [" AND ", clause.and] : [" OR ", clause.or];
+  return `(${items.map(describeWhere).join(glue)})`;
+}
+
+// "-14d" -> the date 14 days ago, "end_of_quarter" -> the quarter's last day (YYYY-MM-DD, UTC)
+function resolveRelativeDate(token: string, now = new Date()): string | undefined {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const offset = token.match(/^([+-]\d+)([dwmy])$/);
+  const boundary = token.match(/^(start|end)_of_(week|month|quarter|year)$/);
+  if (token === "today" || token === "yesterday" || token === "tomorrow") {
+    date.setUTCDate(date.getUTCDate() + { today: 0, yesterday: -1, tomorrow: 1 }[token]);
+  } else if (offset) {
+    const amount = Number(offset[1]);
+    if (offset[2] === "d") date.setUTCDate(date.getUTCDate() + amount);
+    if (offset[2] === "w") date.setUTCDate(date.getUTCDate() + amount * 7);
+    if (offset[2] === "m") date.setUTCMonth(date.getUTCMonth() + amount);
+    if (offset[2] === "y") date.setUTCFullYear(date.getUTCFullYear() + amount);
+  } else if (boundary) {
+    const [, edge, unit] = boundary;
+    if (unit === "week") {
+      // Weeks start on Monday
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7) + (edge === "end" ? 6 : 0));
+    } else {
+      const months = { month: 1, quarter: 3, year: 12 }[unit as "month" | "quarter" | "year"];
+      const first = date.getUTCMonth() - (date.getUTCMonth() % months);
+      date.setUTCDate(1);
+      date.setUTCMonth(edge === "start" ? first : first + months, edge === "start" ? 1 : 0);
+    }
+  } else {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Accepts v2 ISO timestamps and v1 "YYYY-MM-DD HH:MM:SS" (UTC); returns [start, end) of the day or instant
+function parseWhereDate(value: unknown): [number, number] | undefined {
+  if (typeof value !== "string") return undefined;
+  const text = resolveRelativeDate(value) ?? value;
+  const match = text.match(/^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) return undefined;
+  if (!match[1]) {
+    const start = Date.parse(`${text}T00:00:00Z`);
+    return Number.isNaN(start) ? undefined : [start, start + DAY_MS];
+  }
+  const start = Date.parse(match[4] ? text.replace(" ", "T") : `${text.replace(" ", "T")}Z`);
+  return Number.isNaN(start) ? undefined : [start, start + 1];
+}
+
+// Monetary custom fields are { value, currency }, emails [{ value }], set fields lists of labels
+function whereScalar(value: unknown): unknown {
+  return isPlainObject(value) ? value.value ?? value.label ?? value.name ?? value.id : value;
+}
+
+function compareScalar(actual: unknown, op: WhereOperator, expected: unknown): boolean {
+  actual = whereScalar(actual);
+  if (op === "contains") {
+    return actual !== null && actual !== undefined && String(actual).toLowerCase().includes(String(expected).toLowerCase());
+  }
+  const expectedDate = parseWhereDate(expected);
+  if (expectedDate) {
+    const actualDate = parseWhereDate(actual);
+    if (!actualDate) return op === "!=";
+    const [start, end] = expectedDate;
+    const at = actualDate[0];
+    return { "=": at >= start && at < end, "!=": at < start || at >= end, ">": at >= end, ">=": at >= start, "<": at < start, "<=": at < end }[
+      op as "=" | "!=" | ">" | ">=" | "<" | "<="
+    ];
+  }
+
+  let order: number | undefined;
+  if (actual === null || actual === undefined || actual === "") {
+    order = undefined;
+  } else if (typeof expected === "number" || typeof actual === "number") {
+    const [a, b] = [Number(actual), Number(expected)];
+    order = Number.isNaN(a) || Number.isNaN(b) ? undefined : a - b;
+  } else if (typeof expected === "boolean" || typeof actual === "boolean") {
+    order = Boolean(actual) === (expected === true || expected === "true" || expected === 1) ? 0 : 1;
+  } else {
+    order = String(actual).toLowerCase().localeCompare(String(expected).toLowerCase());
+  }
+  if (order === undefined) return op === "!=";
+  return { "=": order === 0, "!=": order !== 0, ">": order > 0, ">=": order >= 0, "<": order < 0, "<=": order <= 0 }[
+    op as "=" | "!=" | ">" | ">=" | "<" | "<="
+  ];
+}
+
+function matchesCondition(actual: unknown, op: WhereOperator, expected: unknown): boolean {
+  const empty = actual === null || actual === undefined || actual === "" || (Array.isArray(actual) && !actual.length);
+  if (op === "empty") return empty;
+  if (op === "not_empty") return !empty;
+  if (Array.isArray(actual)) {
+    // Multi-value fields match when any value does; != only when none equals
+    return op === "!=" ? actual.every((item) => compareScalar(item, "!=", expected)) : actual.some((item) => matchesCondition(item, op, expected));
+  }
+  if (op === "in") return (expected as unknown[]).some((item) => compareScalar(actual, "=", item));
+  if (op === "between") {
+    const [from, to] = expected as unknown[];
+    return compareScalar(actual, ">=", from) && compareScalar(actual, "<=", to);
+  }
+  return compareScalar(actual, op, expected);
+}
+
+function matchesWhere(record: unknown, clause: WhereClause, valueOf: (record: unknown, field: string) => unknown): boolean {
+  if (isWhereCondition(clause)) return matchesCondition(valueOf(record, clause.field), clause.op ?? "=", clause.value);
+  return "and" in clause
+    ? clause.and.every((item) => matchesWhere(record, item, valueOf))
+    : clause.or.some((item) => matchesWhere(record, item, valueOf));
+}
+
+// Splits the top-level AND into query parameters the API filters on and the rest, which runs client-side
+function planWhere(where: WhereClause, entity: FieldEntity, taken: Set<string>) {
+  const items = isWhereCondition(where) ? [where] : "and" in where ? where.and : [where];
+  const query: Record<string, string> = {};
+  const api: string[] = [];
+  const client: WhereClause[] = [];
+  const push = (clause: WhereClause, param: string, value: string) => {
+    taken.add(param);
+    query[param] = value;
+    api.push(`${describeWhere(clause)} -> ${param}=${value}`);
+  };
+  for (const item of items) {
+    if (isWhereCondition(item)) {
+      const op = item.op ?? "=";
+      const date = item.field === "update_time" ? parseWhereDate(item.value) : undefined;
+      const since = date && op === ">=" && !taken.has("updated_since");
+      const until = date && op === "<" && !taken.has("updated_until");
+      if (since || until) {
+        push(item, since ? "updated_since" : "updated_until", new Date(date[0]).toISOString().replace(/\.\d{3}Z$/, "Z"));
+        continue;
+      }
+      if (item.field === "id" && op === "in" && !taken.has("ids") && (item.value as unknown[]).length <= 100) {
+        push(item, "ids", (item.value as unknown[]).join(","));
+        continue;
+      }
+      const primitive = ["string", "number", "boolean"].includes(typeof item.value);
+      if (op === "=" && primitive && WHERE_API_PARAMS[entity].includes(item.field) && !taken.has(item.field)) {
+        push(item, item.field, String(item.value));
+        continue;
+      }
+    }
+    client.push(item);
+  }
+  return { query, api, client };
+}
+
+function whereFields(clause: WhereClause): string[] {
+  if (isWhereCondition(clause)) return [clause.field];
+  return ("and" in clause ? clause.and : clause.or).flatMap(whereFields);
+}
+
+// Built-in fields and dot paths first, then custom fields by name or key (labeled records carry names)
+function whereFieldValue(record: unknown, field: string, definitions: FieldDefinition[]): unknown {
+  const direct = getPath(record, field);
+  if (direct !== undefined) return direct;
+  const wanted = field.toLowerCase();
+  const name = definitions.find((f) => f.key === field || f.name.toLowerCase() === wanted)?.name.toLowerCase() ?? wanted;
+  for (const source of [getPath(record, "custom_fields"), record]) {
+    if (!isPlainObject(source)) continue;
+    const key = Object.keys(source).find((candidate) => candidate.toLowerCase() === name);
+    if (key !== undefined) return source[key];
+  }
+  return undefined;
+}
+
+// ============ PARAMETER VALIDATION ============
+
+const DATE_PATTERN = "^\\d{4}-\\d{2}-\\d{2}$";
+const DEAL_STATUSES = ["open", "won", "lost", "deleted"];
+const LEAD_LABEL_COLORS = ["green", "blue", "red", "yellow", "purple", "gray"];
+const WEBHOOK_OBJECTS = ["deal", "person", "organization", "activity", "lead", "note", "product", "pipeline", "stage", "user"];
+
+// A string limited to the given values; the schema lists them, so bad values never reach the API
+function stringEnum(values: string[], options: { description: string }) {
+  return Type.Union(values.map((value) => Type.Literal(value)), options);
+}
+
+function dateParam(description: string) {
+  return Type.String({ pattern: DATE_PATTERN, description });
+}
+
+const sortDirection = stringEnum(["asc", "desc"], { description: "Sort direction" });
+
+// Filters of the list tools; pipedrive_export_records takes the same ones
+const savedFilterParam = Type.Optional(
+  Type.Number({ description: "Only records matching this saved filter (see pipedrive_list_filters)" })
+);
+const listFilterParams: Record<FieldEntity, Record<string, TSchema>> = {
+  deal: {
+    status: Type.Optional(stringEnum(DEAL_STATUSES, { description: "Filter by status" })),
+    stage_id: Type.Optional(Type.Number({ description: "Filter by pipeline stage ID" })),
+    owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
+    person_id: Type.Optional(Type.Number({ description: "Filter by person ID" })),
+    org_id: Type.Optional(Type.Number({ description: "Filter by organization ID" })),
+    pipeline_id: Type.Optional(Type.Number({ description: "Filter by pipeline ID" })),
+    sort_by: Type.Optional(stringEnum(["id", "add_time", "update_time"], { description: "Sort by" })),
+    sort_direction: Type.Optional(sortDirection),
+    filter_id: savedFilterParam,
+    ...whereParams,
+  },
+  person: {
+    owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
+    org_id: Type.Optional(Type.Number({ description: "Filter by organization ID" })),
+    sort_by: Type.Optional(stringEnum(["id", "add_time", "update_time", "name"], { description: "Sort by" })),
+    sort_direction: Type.Optional(sortDirection),
+    filter_id: savedFilterParam,
+    ...whereParams,
+  },
+  organization: {
+    owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
+    sort_by: Type.Optional(stringEnum(["id", "add_time", "update_time", "name"], { description: "Sort by" })),
+    sort_direction: Type.Optional(sortDirection),
+    filter_id: savedFilterParam,
+    ...whereParams,
+  },
+  activity: {
+    deal_id: Type.Optional(Type.Number({ description: "Filter by deal ID" })),
+    person_id: Type.Optional(Type.Number({ description: "Filter by person ID" })),
+    org_id: Type.Optional(Type.Number({ description: "Filter by organization ID" })),
+    owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
+    done: Type.Optional(Type.Boolean({ description: "Filter by completion: true = done, false = not done" })),
+    type: Type.Optional(Type.String({ description: "Filter by type: call, meeting, task, deadline, email, lunch" })),
+    sort_by: Type.Optional(stringEnum(["id", "add_time", "update_time", "due_date"], { description: "Sort by" })),
+    sort_direction: Type.Optional(sortDirection),
+    filter_id: savedFilterParam,
+    ...whereParams,
+  },
+};
+
+// Checks a call against the tool schema before anything is sent. Unions of object shapes
+// (where clauses) are left to the tools, which report them with more specific messages.
+function invalidParams(schema: TObject, params: Record<string, unknown>): ToolError | undefined {
+  const problems: { field: string; message: string; hint?: string }[] = [];
+  for (const error of Value.Errors(schema, params)) {
+    const field = error.path.slice(1).replace(/\//g, ".");
+    if (!field || problems.some((problem) => problem.field === field)) continue;
+    const variants = (error.schema.anyOf ?? []) as TSchema[];
+    const got = JSON.stringify(error.value);
+    if (error.value === undefined) {
+      problems.push({ field, message: `${field} is required`, hint: error.schema.description });
+    } else if (variants.length && variants.every((variant) => typeof variant.const === "string")) {
+      problems.push({
+        field,
+        message: `Invalid ${field} ${got}`,
+        hint: `Use one of: ${variants.map((variant) => variant.const).join(", ")}`,
+      });
+    } else if (error.schema.pattern === DATE_PATTERN) {
+      problems.push({ field, message: `Invalid ${field} ${got}`, hint: "Use a YYYY-MM-DD date, e.g. 2026-03-31" });
+    } else if (!variants.length) {
+      problems.push({ field, message: `Invalid ${field} ${got}: ${error.message}`, hint: error.schema.description });
+    }
+  }
+  if (!problems.length) return undefined;
+  const [first] = problems;
+  return new ToolError("validation", problems.map((problem) => problem.message).join("; "), {
+    field: first.field,
+    hint: first.hint,
+  });
+}
+
+// ============ TOOL ERRORS ============
+
+const ERROR_HINTS: Record<ErrorCategory, string> = {
+  auth: "Pipedrive rejected the credentials; check apiKey/oauth for this account in the plugin config. Retrying will not help",
+  permission: "The Pipedrive user behind these credentials may not access this record or feature. Retrying will not help",
+  not_found: "Check the ID; find valid ones with the matching search or list tool",
+  validation: "Fix the parameter and call again",
+  rate_limit: "Pipedrive's rate limit is still exhausted after retries; wait a minute before calling again",
+  server: "Pipedrive failed to process the request; try again later",
+};
+
+function apiErrorCategory(status: number): ErrorCategory {
+  if (status === 401) return "auth";
+  if (status === 402 || status === 403) return "permission";
+  if (status === 404 || status === 410) return "not_found";
+  if (status === 429) return "rate_limit";
+  return status >= 500 ? "server" : "validation";
+}
+
+// The parameter named first in an error message, e.g. stage_id in "stage_id: not a valid stage"
+function offendingField(message: string, params: Record<string, unknown>): string | undefined {
+  let found: { field: string; index: number } | undefined;
+  for (const field of Object.keys(params).filter((key) => /^\w+$/.test(key))) {
+    const index = message.search(new RegExp(`\\b${field}\\b`));
+    if (index >= 0 && (!found || index < found.index)) found = { field, index };
+  }
+  return found?.field;
+}
+
+function toToolError(err: Error, params: Record<string, unknown>): ToolError {
+  if (err instanceof ToolError) return err;
+  if (!(err instanceof PipedriveApiError)) {
+    return new ToolError("validation", err.message, { field: offendingField(err.message, params) });
+  }
+  let message = err.body;
+  try {
+    const body = JSON.parse(err.body);
+    if (typeof body?.error === "string") message = body.error;
+  } catch {
+    // not JSON, e.g. a gateway error page
+  }
+  const category = apiErrorCategory(err.status);
+  const field = offendingField(message, params) ?? (category === "not_found" && "id" in params ? "id" : undefined);
+  return new ToolError(category, truncate(message, 500), { field, status: err.status });
+}
+
+// What the agent needs to correct a call instead of retrying it blindly
+function errorResult(error: ToolError): ToolResult {
+  const { field, status, hint = ERROR_HINTS[error.category] } = error.details;
+  const retryable = error.category === "rate_limit" || error.category === "server";
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({ error: { category: error.category, status, message: error.message, field, hint, retryable } }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+// ============ RESPONSE FORMATTING ============
+
+type OutputFormat = "compact" | "full" | "table";
+type OutputOptions = { fields?: string[]; format?: OutputFormat };
+
+// Shared by every read tool; consumed by toolResult and never sent to the API
+const outputParams = {
+  fields: Type.Optional(
+    Type.Array(Type.String(), {
+      description: 'Only return these fields of each record. Dot paths select nested values (e.g. ["id", "title", "owner_id"])',
+    })
+  ),
+  format: Type.Optional(
+    Type.Union([Type.Literal("compact"), Type.Literal("full"), Type.Literal("table")], {
+      description: "compact (default): minified JSON without null/empty values; full: the raw API payload; table: markdown table",
+    })
+  ),
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Drops null, undefined, empty strings, empty arrays and empty objects (keeps false and 0)
+function pruneEmpty(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map(pruneEmpty).filter((item) => item !== undefined);
+    return items.length ? items : undefined;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+      .map(([key, item]) => [key, pruneEmpty(item)] as const)
+      .filter(([, item]) => item !== undefined);
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  }
+  return value === null || value === "" ? undefined : value;
+}
+
+// { person: { name: "Ann" }, emails: [{ value: "a@x.com" }] } -> { "person.name": "Ann", emails: "a@x.com" }
+function flattenRecord(record: Record<string, unknown>, prefix = ""): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (isPlainObject(value)) {
+      Object.assign(flat, flattenRecord(value, `${prefix}${key}.`));
+    } else if (Array.isArray(value)) {
+      flat[`${prefix}${key}`] = value
+        .map((item) => (isPlainObject(item) ? item.value ?? item.name ?? JSON.stringify(item) : item))
+        .join(", ");
+    } else if (value !== null && value !== undefined) {
+      flat[`${prefix}${key}`] = value;
+    }
+  }
+  return flat;
+}
+
+function getPath(record: unknown, path: string): unknown {
+  let current = record;
+  for (const key of path.split(".")) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function projectFields(records: unknown, fields: string[]): unknown {
+  if (Array.isArray(records)) return records.map((record) => projectFields(record, fields));
+  if (!isPlainObject(records)) return records;
+  const projected: Record<string, unknown> = {};
+  for (const path of fields) {
+    const value = getPath(records, path);
+    if (value === undefined) continue;
+    const keys = path.split(".");
+    let target = projected;
+    for (const key of keys.slice(0, -1)) {
+      if (!isPlainObject(target[key])) target[key] = {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return projected;
+}
+
+// Search endpoints wrap hits as { result_score, item }; flatten them to plain records
+function unwrapRecords(data: unknown): unknown {
+  if (isPlainObject(data) && Array.isArray(data.items)) {
+    return data.items.map((hit) =>
+      isPlainObject(hit) && isPlainObject(hit.item) ? { ...hit.item, result_score: hit.result_score } : hit
+    );
+  }
+  return data;
+}
+
+function tableCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text: string;
+  if (isPlainObject(value)) {
+    // Prefer the human-readable part of nested references (owner, person, org)
+    const label = value.name ?? value.title ?? value.value ?? value.email;
+    text = label !== undefined ? String(label) : JSON.stringify(value);
+  } else if (Array.isArray(value)) {
+    text = value.map(tableCell).join(", ");
+  } else {
+    text = String(value);
+  }
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function toMarkdownTable(records: unknown, fields?: string[]): string {
+  if (isPlainObject(records)) {
+    const rows = Object.entries(records).map(([key, value]) => `| ${key} | ${tableCell(value)} |`);
+    return ["| Field | Value |", "|-------|-------|", ...rows].join("\n");
+  }
+  if (!Array.isArray(records) || records.length === 0) return "_No results_";
+  const columns = fields?.length
+    ? fields
+    : [...new Set(records.flatMap((record) => (isPlainObject(record) ? Object.keys(record) : [])))];
+  const header = `| ${columns.join(" | ")} |`;
+  const divider = `|${columns.map(() => "---").join("|")}|`;
+  const rows = records.map((record) => `| ${columns.map((column) => tableCell(getPath(record, column))).join(" | ")} |`);
+  return [header, divider, ...rows].join("\n");
+}
+
+function formatResult(data: unknown, options: OutputOptions = {}): string {
+  const { fields, format = "compact" } = options;
+  if (format === "full" && !fields?.length) return JSON.stringify(data, null, 2);
+
+  const envelope = isPlainObject(data) && "data" in data ? data : undefined;
+  let records = unwrapRecords(envelope ? envelope.data : data);
+  if (fields?.length) records = projectFields(records, fields);
+
+  if (format === "full") {
+    return JSON.stringify(envelope ? { ...envelope, data: records } : records, null, 2);
+  }
+
+  // related_objects only repeats what the ids already reference; keep just pagination state
+  records = pruneEmpty(records);
+  const additional = envelope ? pruneEmpty(envelope.additional_data) : undefined;
+
+  if (format === "table") {
+    const table = toMarkdownTable(records, fields);
+    return additional ? `${table}\n\n_${JSON.stringify(additional)}_` : table;
+  }
+  return JSON.stringify(additional ? { data: records ?? null, additional_data: additional } : records ?? null);
+}
+
+function toolResult(data: unknown, options?: OutputOptions): ToolResult {
+  return { content: [{ type: "text", text: formatResult(data, options) }] };
+}
+
+// Pure helpers, exported for the unit tests in test/
+export {
+  cleanMailBody,
+  createTokenBucket,
+  expandRecurrence,
+  findDuplicateClusters,
+  invalidatedCategories,
+  matchesWhere,
+  metadataCategory,
+  normalizePhone,
+  normalizeWebhookEvent,
+  parseCsv,
+  parseRetryAfter,
+  parseWhen,
+  planWhere,
+  scoreDuplicate,
+  toCsv,
+  toDuplicateRecord,
+  validateWhere,
+  zonedToUtc,
+};
+
+export default function register(api: { pluginConfig: unknown; registerTool: (...args: any[]) => void }) {
+  const cfg = api.pluginConfig as PipedriveConfig;
+  const accounts = resolveAccounts(cfg);
+
+  if (accounts.size === 0) {
+    console.warn("[pipedrive] Plugin not configured: missing apiKey/oauth or domain/siteUrl");
+    return;
+  }
+
+  const defaultAccount = cfg.defaultAccount ?? (accounts.has("default") ? "default" : [...accounts.keys()][0]);
+  if (!accounts.has(defaultAccount)) {
+    console.warn(`[pipedrive] Plugin not configured: defaultAccount "${defaultAccount}" is not in accounts`);
+    return;
+  }
+
+  const maxRetries = cfg.retry?.maxRetries ?? 3;
+  const baseDelayMs = cfg.retry?.baseDelayMs ?? 500;
+  const maxDelayMs = cfg.retry?.maxDelayMs ?? 30_000;
+  const toolCalls = new AsyncLocalStorage<ToolCall>();
+
+  // Each account is a separate company: own base URLs, credentials and rate-limit budget
+  const clients = new Map(
+    [...accounts].map(([name, account]) => [
+      name,
+      {
+        name,
+        domain: account.domain,
+        apiKey: account.apiKey,
+        oauth: account.oauth,
+        tokenPath: account.oauth?.tokenPath || join(homedir(), ".openclaw", `pipedrive-oauth-${name}.json`),
+        tokens: undefined as OAuthTokens | undefined,
+        refreshing: undefined as Promise<OAuthTokens> | undefined,
+        baseUrlV2: `https://${account.domain}.pipedrive.com/api/v2`,
+        baseUrlV1: `https://${account.domain}.pipedrive.com/api/v1`, // For endpoints not yet in v2
+        rateLimiter: createTokenBucket(cfg.retry?.requestsPerSecond ?? 10, cfg.retry?.burst ?? 20),
+      },
+    ])
+  );
+  type PipedriveClient = NonNullable<ReturnType<typeof clients.get>>;
+
+  // Keeps credentials out of error messages, which end up in agent transcripts and logs
+  function redact(text: string, client: PipedriveClient) {
+    const secrets = [
+      client.apiKey,
+      client.oauth?.clientSecret,
+      client.oauth?.refreshToken,
+      client.oauth?.accessToken,
+      client.tokens?.access_token,
+      client.tokens?.refresh_token,
+      cfg.webhooks?.password,
+    ];
+    let redacted = text;
+    for (const secret of secrets) {
+      if (secret) redacted = redacted.split(secret).join("[REDACTED]");
+    }
+    return redacted;
+  }
+
+  // ============ OAUTH ============
+
+  // The persisted file wins over config, since Pipedrive may rotate the refresh token on every refresh,
+  // unless the configured refresh token has changed since the file was written
+  async function loadTokens(client: PipedriveClient): Promise<OAuthTokens> {
+    if (client.tokens) return client.tokens;
+    const configured = client.oauth!.refreshToken;
+    try {
+      const saved = JSON.parse(await readFile(client.tokenPath, "utf8")) as OAuthTokens;
+      if (!saved.seeded_from || saved.seeded_from === configured) client.tokens = saved;
+    } catch {
+      // No usable file: start from config
+    }
+    client.tokens ??= {
+      access_token: client.oauth!.accessToken ?? "",
+      refresh_token: configured,
+      expires_at: 0,
+      seeded_from: configured,
+    };
+    return client.tokens;
+  }
+
+  function refreshTokens(client: PipedriveClient): Promise<OAuthTokens> {
+    // Concurrent 401s share one refresh instead of racing to rotate the refresh token
+    client.refreshing ??= (async () => {
+      const { clientId, clientSecret } = client.oauth!;
+      const current = await loadTokens(client);
+      const res = await fetch(OAUTH_TOKEN_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+        },
+        body: new URLSearchParams({ grant_type: "refresh_token", refresh_token: current.refresh_token }),
+      });
+      if (res.status === 400 || res.status === 401) {
+        // The saved chain is dead; drop it so a new oauth.refreshToken in config takes effect
+        client.tokens = undefined;
+        await rm(client.tokenPath, { force: true }).catch(() => undefined);
+        throw new ToolError("auth", `Pipedrive OAuth refresh failed (${res.status}): ${redact(await res.text(), client)}`, {
+          hint: "The refresh token was rejected; authorize the app again and update oauth.refreshToken in the plugin config",
+        });
+      }
+      if (!res.ok) {
+        throw new ToolError("server", `Pipedrive OAuth refresh failed (${res.status}): ${redact(await res.text(), client)}`, {
+          status: res.status,
+        });
+      }
+      const body = (await res.json()) as { access_token: string; refresh_token?: string; expires_in?: number };
+      client.tokens = {
+        access_token: body.access_token,
+        refresh_token: body.refresh_token ?? current.refresh_token,
+        expires_at: body.expires_in ? Date.now() + body.expires_in * 1000 : 0,
+        seeded_from: current.seeded_from,
+      };
+      try {
+        await mkdir(dirname(client.tokenPath), { recursive: true });
+        await writeFile(client.tokenPath, JSON.stringify(client.tokens), { mode: 0o600 });
+      } catch (err) {
+        console.warn(`[pipedrive] Failed to persist OAuth tokens to ${client.tokenPath}: ${err}`);
+      }
+      return client.tokens;
+    })().finally(() => {
+      client.refreshing = undefined;
+    });
+    return client.refreshing;
+  }
+
+  // API tokens go in a header rather than the query string, so they never show up in proxy logs or URLs
+  async function authHeaders(client: PipedriveClient): Promise<Record<string, string>> {
+    if (!client.oauth) return { "x-api-token": client.apiKey! };
+    let tokens = await loadTokens(client);
+    const expiring = tokens.expires_at !== 0 && tokens.expires_at - TOKEN_EXPIRY_MARGIN_MS < Date.now();
+    if (!tokens.access_token || expiring) tokens = await refreshTokens(client);
+    return { Authorization: `Bearer ${tokens.access_token}` };
+  }
+
+  function currentClient(): PipedriveClient {
+    return clients.get(toolCalls.getStore()?.account ?? defaultAccount)!;
+  }
+
+  // Full jitter: random delay in [0, min(max, base * 2^attempt)]
+  function backoffDelay(attempt: number) {
+    return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  }
+
+  const auditEnabled = cfg.audit?.enabled ?? true;
+  const auditPath = cfg.audit?.path || join(homedir(), ".openclaw", "pipedrive-audit.jsonl");
+
+  async function writeAudit(entry: AuditEntry) {
+    try {
+      await mkdir(dirname(auditPath), { recursive: true });
+      await appendFile(auditPath, JSON.stringify(entry) + "\n", { mode: 0o600 });
+    } catch (err) {
+      // The CRM change already happened; losing the log line must not turn it into a failure
+      console.warn(`[pipedrive] Failed to write audit log ${auditPath}: ${err}`);
+    }
+  }
+
+  // ============ METADATA CACHE ============
+
+  type CacheEntry = { category: string; expires: number; value: Promise<unknown> };
+  const cacheConfig = cfg.cache ?? {};
+  const cacheEnabled = cacheConfig.enabled ?? true;
+  const cachePath = cacheConfig.persist ? expandPath(cacheConfig.path || "~/.openclaw/pipedrive-cache.json") : undefined;
+  const metadataCache = new Map<string, CacheEntry>();
+  let cacheLoaded: Promise<void> | undefined;
+  let cacheWrites = Promise.resolve();
+
+  function cacheTtlMs(category: string) {
+    const ttl = cacheConfig.ttl ?? {};
+    const seconds =
+      ttl[category] ?? (category.endsWith("Fields") ? ttl.fields : undefined) ?? cacheConfig.ttlSeconds ?? DEFAULT_CACHE_TTL_SECONDS;
+    return seconds * 1000;
+  }
+
+  function loadCache() {
+    cacheLoaded ??= (async () => {
+      if (!cachePath) return;
+      try {
+        const saved = JSON.parse(await readFile(cachePath, "utf8")) as Record<
+          string,
+          { category: string; expires: number; data: unknown }
+        >;
+        for (const [key, entry] of Object.entries(saved)) {
+          if (entry.expires > Date.now() && !metadataCache.has(key)) {
+            metadataCache.set(key, { category: entry.category, expires: entry.expires, value: Promise.resolve(entry.data) });
+          }
+        }
+      } catch {
+        // No cache file yet, or an unreadable one; start empty
+      }
+    })();
+    return cacheLoaded;
+  }
+
+  function persistCache() {
+    if (!cachePath) return;
+    // Serialized, so two writes never interleave in the file
+    cacheWrites = cacheWrites.then(async () => {
+      const saved: Record<string, { category: string; expires: number; data: unknown }> = {};
+      for (const [key, entry] of metadataCache) {
+        const data = await entry.value.catch(() => undefined);
+        if (data !== undefined && entry.expires > Date.now()) saved[key] = { category: entry.category, expires: entry.expires, data };
+      }
+      try {
+        await mkdir(dirname(cachePath), { recursive: true });
+        await writeFile(cachePath, JSON.stringify(saved), { mode: 0o600 });
+      } catch (err) {
+        console.warn(`[pipedrive] Failed to persist metadata cache to ${cachePath}: ${err}`);
+      }
+    });
+  }
+
+  async function cachedMetadata(client: PipedriveClient, category: string, key: string, load: () => Promise<unknown>) {
+    await loadCache();
+    const cacheKey = `${client.name}:${key}`;
+    let entry = metadataCache.get(cacheKey);
+    if (!entry || entry.expires <= Date.now()) {
+      // Concurrent callers share one in-flight request
+      entry = { category, expires: Date.now() + cacheTtlMs(category), value: load() };
+      metadataCache.set(cacheKey, entry);
+      const stored = entry;
+      entry.value.then(persistCache, () => {
+        // Don't cache failures; the next call retries
+        if (metadataCache.get(cacheKey) === stored) metadataCache.delete(cacheKey);
+      });
+    }
+    // Callers may modify what they get back; the cached copy must stay intact
+    return structuredClone(await entry.value);
+  }
+
+  function clearMetadata(client: PipedriveClient | undefined, categories?: string[]) {
+    let cleared = 0;
+    for (const [key, entry] of metadataCache) {
+      if (client && !key.startsWith(`${client.name}:`)) continue;
+      if (categories && !categories.some((category) => entry.category === category)) continue;
+      metadataCache.delete(key);
+      cleared++;
+    }
+    if (cleared) persistCache();
+    return cleared;
+  }
+
+  async function pipedriveRequest(endpoint: string, options?: RequestInit & { useV1?: boolean; binary?: boolean }) {
+    const client = currentClient();
+    const baseUrl = options?.useV1 ? client.baseUrlV1 : client.baseUrlV2;
+    const { useV1, binary, ...fetchOptions } = options || {};
+    const method = (fetchOptions.method || "GET").toUpperCase();
+
+    const call = toolCalls.getStore();
+    if (method !== "GET" && call && call.mode !== "execute") {
+      const captured: CapturedRequest = { method, url: `${baseUrl}${endpoint}`, body: redactSecrets(parseBody(fetchOptions.body)) };
+      if (call.mode === "preview" && method !== "POST") {
+        // Show the record as it is now, so the caller can see what is about to change
+        captured.current = await pipedriveRequest(snapshotPath(endpoint) ?? endpoint, { useV1 }).then(
+          (res) => redactSecrets(res.data),
+          () => undefined
+        );
+      }
+      call.captured.push(captured);
+      return { success: true, data: null };
+    }
+
+    const category = method === "GET" && !binary && cacheEnabled ? metadataCategory(endpoint) : undefined;
+    if (category) {
+      const load = async () => (await sendRequest(client, `${baseUrl}${endpoint}`, method, fetchOptions)).data;
+      return cachedMetadata(client, category, `${useV1 ? "v1" : "v2"}${endpoint}`, load);
+    }
+
+    if (method === "GET" || !auditEnabled) {
+      const { data } = await sendRequest(client, `${baseUrl}${endpoint}`, method, fetchOptions, binary);
+      if (method !== "GET") clearMetadata(client, invalidatedCategories(endpoint));
+      return data;
+    }
+
+    // Single-record updates, deletes and merges get a before-snapshot; anything else would cost extra calls
+    const snapshot = method !== "POST" ? snapshotPath(endpoint) : undefined;
+    const before = snapshot
+      ? await pipedriveRequest(snapshot, { useV1 }).then(
+          (res) => res.data,
+          () => undefined
+        )
+      : undefined;
+    const { entity, entityId } = auditTarget(endpoint);
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      account: client.name,
+      tool: call?.tool,
+      tool_call_id: call?.id,
+      method,
+      endpoint: `${useV1 ? "/v1" : "/v2"}${endpoint}`,
+      entity,
+      entity_id: entityId,
+      request_body: redactSecrets(parseBody(fetchOptions.body)),
+      before: redactSecrets(before),
+      status: 0,
+    };
+    try {
+      const { status, data } = await sendRequest(client, `${baseUrl}${endpoint}`, method, fetchOptions);
+      entry.status = status;
+      entry.entity_id ??= data?.data?.id ?? undefined;
+      clearMetadata(client, invalidatedCategories(endpoint));
+      return data;
+    } catch (err) {
+      entry.status = err instanceof PipedriveApiError ? err.status : 0;
+      entry.error = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      await writeAudit(entry);
+    }
+  }
+
+  async function sendRequest(
+    client: PipedriveClient,
+    target: string,
+    method: string,
+    fetchOptions: RequestInit,
+    binary = false
+  ): Promise<{ status: number; data: any }> {
+    const { rateLimiter } = client;
+    // A POST that failed with 5xx or a dropped connection may still have been applied,
+    // so only rate-limit rejections (429) are safe to replay for creates.
+    const idempotent = method !== "POST";
+    let refreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      await rateLimiter.take();
+
+      let res: Response;
+      try {
+        res = await fetch(target, {
+          ...fetchOptions,
+          headers: {
+            // fetch sets the multipart boundary itself for FormData bodies
+            ...(fetchOptions.body instanceof FormData ? {} : { "Content-Type": "application/json" }),
+            ...fetchOptions?.headers,
+            ...(await authHeaders(client)),
+          },
+        });
+      } catch (err) {
+        if (!idempotent || attempt >= maxRetries) {
+          if (err instanceof Error) err.message = redact(err.message, client);
+          throw err;
+        }
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+
+      // An expired or revoked access token: refresh once and replay without using up a retry
+      if (res.status === 401 && client.oauth && !refreshed) {
+        refreshed = true;
+        await res.body?.cancel();
+        await refreshTokens(client);
+        attempt--;
+        continue;
+      }
+
+      const remaining = res.headers.get("x-ratelimit-remaining");
+      const resetMs = parseRetryAfter(res.headers.get("x-ratelimit-reset"));
+      if (remaining === "0" && resetMs !== undefined) {
+        rateLimiter.pauseUntil(Date.now() + Math.min(resetMs, maxDelayMs));
+      }
+
+      if (res.ok) {
+        return { status: res.status, data: binary ? Buffer.from(await res.arrayBuffer()) : await res.json() };
+      }
+
+      const retryable = res.status === 429 || (res.status >= 500 && idempotent);
+      if (retryable && attempt < maxRetries) {
+        const waitMs = Math.min(
+          res.status === 429
+            ? parseRetryAfter(res.headers.get("retry-after")) ?? resetMs ?? backoffDelay(attempt)
+            : backoffDelay(attempt),
+          maxDelayMs
+        );
+        if (res.status === 429) rateLimiter.pauseUntil(Date.now() + waitMs);
+        await res.body?.cancel();
+        await sleep(waitMs);
+        continue;
+      }
+
+      throw new PipedriveApiError(res.status, redact(await res.text(), client));
+    }
+  }
+
+  // Follows v2 cursors (additional_data.next_cursor) or v1 offsets
+  // (additional_data.pagination.next_start) when fetch_all is set, merging pages up to max_items.
+  async function pipedriveList(path: string, params: Record<string, unknown>, options?: { useV1?: boolean }) {
+    const { fetch_all, max_items, fields, format, ...filters } = params as { fetch_all?: boolean; max_items?: number } &
+      OutputOptions &
+      Record<string, unknown>;
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) query.set(key, String(value));
+    }
+    if (!fetch_all) {
+      const qs = query.toString() ? `?${query}` : "";
+      return pipedriveRequest(`${path}${qs}`, options);
+    }
+
+    const maxItems = max_items ?? DEFAULT_MAX_ITEMS;
+    const pageSize = Number(filters.limit) || (options?.useV1 ? 100 : 500);
+    const cursorKey = options?.useV1 ? "start" : "cursor";
+    const items: unknown[] = [];
+    let pages = 0;
+    let next: string | number | undefined;
+
+    while (items.length < maxItems) {
+      // Never request past the cap, so the continuation cursor stays exact
+      query.set("limit", String(Math.min(pageSize, maxItems - items.length)));
+      const page = await pipedriveRequest(`${path}?${query}`, options);
+      pages++;
+      items.push(...(page.data ?? []));
+      const additional = page.additional_data ?? {};
+      next = options?.useV1
+        ? additional.pagination?.more_items_in_collection
+          ? additional.pagination.next_start
+          : undefined
+        : additional.next_cursor ?? undefined;
+      if (next === undefined) break;
+      query.set(cursorKey, String(next));
+    }
+
+    return {
+      success: true,
+      data: items,
+      additional_data: {
+        pages,
+        item_count: items.length,
+        truncated: next !== undefined,
+        ...(next !== undefined ? { [options?.useV1 ? "next_start" : "next_cursor"]: next } : {}),
+      },
+    };
+  }
+
+  // ============ CUSTOM FIELD HELPERS ============
+
+  // Served from the metadata cache; refresh drops the cached definitions first
+  async function getFieldDefinitions(entity: FieldEntity, refresh = false): Promise<FieldDefinition[]> {
+    if (refresh) clearMetadata(currentClient(), [`${entity}Fields`]);
+    const result = await pipedriveList(`/${entity}Fields`, { fetch_all: true, max_items: 10_000 }, { useV1: true });
+    return result.data as FieldDefinition[];
+  }
+
+  function findOption(field: FieldDefinition, value: unknown) {
+    const wanted = String(value).trim().toLowerCase();
+    const option = field.options?.find((o) => String(o.id) === wanted || o.label.toLowerCase() === wanted);
+    if (!option) {
+      const valid = field.options?.map((o) => o.label).join(", ");
+      throw new Error(`Invalid option "${value}" for field "${field.name}". Valid options: ${valid}`);
+    }
+    return option.id;
+  }
+
+  // Translates { "Lead Source": "Referral" } into { "<hash>": <option id> } for v2 request bodies
+  async function resolveCustomFields(entity: FieldEntity, values: Record<string, unknown>) {
+    const definitions = (await getFieldDefinitions(entity)).filter((f) => CUSTOM_FIELD_KEY.test(f.key));
+    const resolved: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(values)) {
+      const wanted = name.trim().toLowerCase();
+      const field = definitions.find((f) => f.key === name || f.name.toLowerCase() === wanted);
+      if (!field) {
+        const valid = definitions.map((f) => f.name).join(", ");
+        throw new Error(`Unknown ${entity} custom field "${name}". Available custom fields: ${valid}`);
+      }
+      if (value === null || value === undefined) {
+        resolved[field.key] = null;
+      } else if (field.field_type === "enum") {
+        resolved[field.key] = findOption(field, value);
+      } else if (field.field_type === "set") {
+        const items = Array.isArray(value) ? value : String(value).split(",");
+        resolved[field.key] = items.map((item) => findOption(field, item));
+      } else {
+        resolved[field.key] = value;
+      }
+    }
+    return resolved;
+  }
+
+  async function withCustomFields(entity: FieldEntity, body: Record<string, unknown>) {
+    const { custom_fields, ...rest } = body as { custom_fields?: Record<string, unknown> } & Record<string, unknown>;
+    if (!custom_fields) return rest;
+    return { ...rest, custom_fields: await resolveCustomFields(entity, custom_fields) };
+  }
+
+  // v2 expects email/phone as arrays of objects
+  async function personBody(params: Record<string, unknown>) {
+    const { email, phone, ...rest } = params as { email?: string; phone?: string } & Record<string, unknown>;
+    const body = await withCustomFields("person", rest);
+    if (email) body.emails = [{ value: email, primary: true, label: "work" }];
+    if (phone) body.phones = [{ value: phone, primary: true, label: "work" }];
+    return body;
+  }
+
+  function labelFieldValue(field: FieldDefinition, value: unknown): unknown {
+    if (value === null || value === undefined || !field.options?.length) return value;
+    const label = (id: unknown) => field.options!.find((o) => String(o.id) === String(id).trim())?.label ?? id;
+    if (field.field_type === "set") {
+      // v2 returns an array of option ids, v1 a comma-separated string
+      return (Array.isArray(value) ? value : String(value).split(",")).map(label);
+    }
+    return label(value);
+  }
+
+  function labelRecord(record: unknown, byKey: Map<string, FieldDefinition>): unknown {
+    if (!isPlainObject(record)) return record;
+    const labeled: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      const field = byKey.get(key);
+      if (key === "custom_fields" && isPlainObject(value)) {
+        labeled.custom_fields = labelRecord(value, byKey);
+      } else if (field && CUSTOM_FIELD_KEY.test(key)) {
+        labeled[field.name] = labelFieldValue(field, value);
+      } else {
+        labeled[key] = value;
+      }
+    }
+    return labeled;
+  }
+
+  // Replaces hash keys and enum option ids in read responses with field names and labels
+  async function labelCustomFields(entity: FieldEntity, response: any) {
+    let byKey: Map<string, FieldDefinition>;
+    try {
+      byKey = new Map((await getFieldDefinitions(entity)).map((f) => [f.key, f]));
+    } catch {
+      return response; // field metadata is a nicety; never fail the read because of it
+    }
+    const data = Array.isArray(response?.data)
+      ? response.data.map((record: unknown) => labelRecord(record, byKey))
+      : labelRecord(response?.data, byKey);
+    return { ...response, data };
+  }
+
+  // ============ WHERE FILTERING ============
+
+  // Pushes what it can into query parameters and filters the rest over auto-paged results;
+  // additional_data.where reports which conditions ran where
+  async function listWhere(path: string, entity: FieldEntity, params: Record<string, unknown>) {
+    const { where, ...rest } = params as { where?: unknown } & Record<string, unknown>;
+    if (where === undefined) return labelCustomFields(entity, await pipedriveList(path, rest));
+    validateWhere(where);
+
+    const plan = planWhere(where, entity, new Set(Object.keys(rest).filter((key) => rest[key] !== undefined)));
+    if (!plan.client.length) {
+      const response = await labelCustomFields(entity, await pipedriveList(path, { ...rest, ...plan.query }));
+      return { ...response, additional_data: { ...response.additional_data, where: { api: plan.api, client: [] } } };
+    }
+
+    const { limit, fetch_all, max_items, ...filters } = { ...rest, ...plan.query } as {
+      limit?: number;
+      fetch_all?: boolean;
+      max_items?: number;
+    } & Record<string, unknown>;
+    const response = await labelCustomFields(
+      entity,
+      await pipedriveList(path, { ...filters, fetch_all: true, max_items: max_items ?? WHERE_SCAN_LIMIT })
+    );
+    const definitions = await getFieldDefinitions(entity).catch(() => [] as FieldDefinition[]);
+    const records = response.data as unknown[];
+    const valueOf = (record: unknown, field: string) => whereFieldValue(record, field, definitions);
+    const matched = records.filter((record) => plan.client.every((clause) => matchesWhere(record, clause, valueOf)));
+    // A field no scanned record has is most likely a typo; say so rather than silently matching nothing
+    const unknownFields = [...new Set(plan.client.flatMap(whereFields))].filter(
+      (field) => records.length && records.every((record) => valueOf(record, field) === undefined)
+    );
+    const data = fetch_all ? matched : matched.slice(0, limit ?? 100);
+    // The scan's cursor points past the last scanned record, so it would skip matches cut off by limit
+    const { next_cursor, next_start, ...scan } = response.additional_data;
+    const cut = data.length < matched.length;
+
+    return {
+      ...response,
+      data,
+      additional_data: {
+        ...(cut ? { ...scan, truncated: true } : response.additional_data),
+        item_count: data.length,
+        where: {
+          api: plan.api,
+          client: plan.client.map(describeWhere),
+          scanned: records.length,
+          matched: matched.length,
+          ...(unknownFields.length ? { unknown_fields: unknownFields } : {}),
+        },
+      },
+    };
+  }
+
+  // ============ DUPLICATE CHECKS ============
+
+  const duplicateCheckParam = {
+    check_duplicates: Type.Optional(
+      Type.Boolean({
+        description: `Look for existing matches first and return them instead of creating a duplicate (default ${!!cfg.duplicateCheck})`,
+      })
+    ),
+  };
+
+  // Uses search rather than a full scan, so it stays cheap enough to run before every create
+  async function findExistingMatches(
+    entity: DuplicateEntity,
+    candidate: { name: string; email?: string; phone?: string; org_id?: number }
+  ) {
+    const path = entity === "person" ? "/persons/search" : "/organizations/search";
+    const searches: [string, string][] = [[candidate.name, "name"]];
+    if (candidate.email) searches.push([candidate.email, "email"]);
+    if (candidate.phone) searches.push([candidate.phone, "phone"]);
+
+    const found = new Map<number, Record<string, any>>();
+    for (const [term, field] of searches) {
+      if (term.trim().length < 2) continue;
+      const query = new URLSearchParams({ term, fields: field, exact_match: String(field !== "name"), limit: "20" });
+      const page = await pipedriveRequest(`${path}?${query}`);
+      for (const { item } of page.data?.items ?? []) found.set(item.id, item);
+    }
+
+    const target = toDuplicateRecord(entity, {
+      id: 0,
+      name: candidate.name,
+      emails: candidate.email ? [candidate.email] : [],
+      phones: candidate.phone ? [candidate.phone] : [],
+      org_id: candidate.org_id,
+    });
+    return [...found.values()]
+      .map((item) => ({ record: item, ...scoreDuplicate(entity, target, toDuplicateRecord(entity, item)) }))
+      .filter((match) => match.confidence >= DUPLICATE_GUARD_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  function duplicatesFound(entity: DuplicateEntity, matches: Awaited<ReturnType<typeof findExistingMatches>>) {
+    return toolResult({
+      created: false,
+      message: `Found ${matches.length} existing ${entity === "person" ? "person(s)" : "organization(s)"} that may be the same. Nothing was created. Use one of them, or call again with check_duplicates: false to create anyway.`,
+      matches,
+    });
+  }
+
+  // ============ NAME LOOKUPS ============
+
+  type LookupKind = "pipelines" | "stages" | "users" | "activityTypes";
+
+  // Served from the metadata cache
+  async function getLookup(kind: LookupKind): Promise<Record<string, any>[]> {
+    const useV1 = kind === "users" || kind === "activityTypes";
+    return (await pipedriveList(`/${kind}`, { fetch_all: true, max_items: 10_000 }, { useV1 })).data;
+  }
+
+  // Turns pipeline/stage/owner names (and activity type names) into the IDs and keys the API expects
+  async function resolveNamedParams(params: Record<string, unknown>, named: string[], activityType: boolean) {
+    const resolved = { ...params };
+    for (const name of named) {
+      if (params[name] === undefined) continue;
+      if (params[NAMED_PARAMS[name].idParam] !== undefined) {
+        throw new Error(`Pass either ${name} or ${NAMED_PARAMS[name].idParam}, not both`);
+      }
+      delete resolved[name];
+    }
+
+    if (typeof params.pipeline === "string") {
+      const pipelines = await getLookup("pipelines");
+      resolved.pipeline_id = pickByName(
+        "pipeline",
+        pipelines.map((pipeline) => ({ id: pipeline.id, names: [pipeline.name], label: `${pipeline.name} (${pipeline.id})` })),
+        params.pipeline
+      );
+    }
+    if (typeof params.stage === "string") {
+      const [pipelines, stages] = await Promise.all([getLookup("pipelines"), getLookup("stages")]);
+      const pipelineName = new Map(pipelines.map((pipeline) => [pipeline.id, pipeline.name]));
+      // Stage names usually repeat across pipelines, so narrow to the pipeline when one is given
+      const candidates = stages.filter((stage) => resolved.pipeline_id === undefined || stage.pipeline_id === resolved.pipeline_id);
+      resolved.stage_id = pickByName(
+        "stage",
+        candidates.map((stage) => ({
+          id: stage.id,
+          names: [stage.name],
+          label: `${stage.name} (${pipelineName.get(stage.pipeline_id) ?? `pipeline ${stage.pipeline_id}`}, ${stage.id})`,
+        })),
+        params.stage
+      );
+    }
+    if (typeof params.owner === "string") {
+      const users = (await getLookup("users")).filter((user) => user.active_flag !== false);
+      resolved.owner_id = pickByName(
+        "user",
+        users.map((user) => ({ id: user.id, names: [user.name, user.email], label: `${user.name} <${user.email}>` })),
+        params.owner
+      );
+    }
+    if (activityType && typeof params.type === "string") {
+      const types = (await getLookup("activityTypes")).filter((type) => type.active_flag !== false);
+      resolved.type = pickByName(
+        "activity type",
+        types.map((type) => ({ id: type.key_string, names: [type.key_string, type.name], label: `${type.key_string} (${type.name})` })),
+        params.type
+      );
+    }
+    return resolved;
+  }
+
+  // ============ PARAMETER CHECKS ============
+
+  // Combinations the API would reject with a bare 400, checked after names are resolved to IDs
+  async function checkDealParams(params: Record<string, unknown>) {
+    if (params.lost_reason !== undefined && params.status !== "lost") {
+      throw new ToolError("validation", "lost_reason requires status=lost", {
+        field: "lost_reason",
+        hint: 'Pass status: "lost" together with lost_reason, or leave lost_reason out',
+      });
+    }
+    if (params.stage_id === undefined || params.pipeline_id === undefined) return;
+    // A stage missing from the cache may be brand new; the API decides then
+    const stage = (await getLookup("stages")).find((candidate) => candidate.id === params.stage_id);
+    if (stage && stage.pipeline_id !== params.pipeline_id) {
+      throw new ToolError("validation", `stage ${stage.id} does not belong to pipeline ${params.pipeline_id}`, {
+        field: "stage_id",
+        hint: `Stage ${stage.id} (${stage.name}) is in pipeline ${stage.pipeline_id}. Leave out pipeline_id, or pick a stage of pipeline ${params.pipeline_id} from pipedrive_list_stages`,
+      });
+    }
+  }
+
+  // ============ TOOL REGISTRATION ============
+
+  const pendingConfirmations = new Map<string, { tool: string; params: string; expires: number }>();
+  let registeredTools = 0;
+
+  // Wraps api.registerTool: applies readOnly, adds the account selector, dry_run on mutating
+  // tools and the preview/confirm_token round trip on destructive ones when confirmDestructive is set.
+  // Params are checked against the schema first; failures come back as isError results, not exceptions.
+  function registerTool(tool: ToolDefinition) {
+    const readTool = READ_TOOL.test(tool.name) || EXTRA_READ_TOOLS.has(tool.name);
+    if (cfg.readOnly && !readTool) return;
+    registeredTools++;
+
+    const needsConfirmation = !readTool && !!cfg.confirmDestructive && !!tool.destructive;
+    const properties: Record<string, TSchema> = { ...tool.parameters.properties };
+    const namedParams = Object.keys(NAMED_PARAMS).filter(
+      (name) => NAMED_PARAMS[name].idParam in properties && !(name in properties)
+    );
+    for (const name of namedParams) {
+      properties[name] = Type.Optional(Type.String({ description: NAMED_PARAMS[name].description }));
+    }
+    const resolvesActivityType = ACTIVITY_TOOL.test(tool.name) && "type" in properties;
+    if (clients.size > 1) {
+      properties.account = Type.Optional(
+        Type.String({
+          description: `Pipedrive account to use: ${[...clients.keys()].join(", ")}. Omit for "${defaultAccount}"`,
+        })
+      );
+    }
+    if (!readTool) {
+      properties.dry_run = Type.Optional(
+        Type.Boolean({ description: "Return the request(s) that would be sent without changing anything" })
+      );
+    }
+    if (needsConfirmation) {
+      properties.confirm_token = Type.Optional(
+        Type.String({ description: "Token from the preview response; required to perform the change" })
+      );
+    }
+
+    const { dryRunReport, destructive, ...definition } = tool;
+    const parameters = Type.Object(properties);
+
+    async function runTool(id: string, params: Record<string, unknown>): Promise<ToolResult> {
+      const invalid = invalidParams(parameters, params);
+      if (invalid) throw invalid;
+      const { account = defaultAccount, dry_run, confirm_token, ...toolParams } = params;
+      if (typeof account !== "string" || !clients.has(account)) {
+        throw new ToolError("validation", `Unknown Pipedrive account "${account}"`, {
+          field: "account",
+          hint: `Configured accounts: ${[...clients.keys()].join(", ")}`,
+        });
+      }
+      const newCall = (mode: ToolCall["mode"]): ToolCall => ({ tool: tool.name, id, account, mode, captured: [] });
+      // Runs inside the call context, so lookups use the selected account
+      const run = async () =>
+        tool.execute(
+          id,
+          namedParams.length || resolvesActivityType
+            ? await resolveNamedParams(toolParams, namedParams, resolvesActivityType)
+            : toolParams
+        );
+
+      if (dry_run && !readTool) {
+        const call = newCall("dry_run");
+        const report = await toolCalls.run(call, run);
+        if (dryRunReport) return report;
+        return toolResult({ dry_run: true, requests: call.captured }, { format: "full" });
+      }
+
+      if (needsConfirmation) {
+        const paramsKey = stableStringify({ account, ...toolParams });
+        if (confirm_token === undefined) {
+          const call = newCall("preview");
+          await toolCalls.run(call, run);
+          for (const [token, entry] of pendingConfirmations) {
+            if (entry.expires < Date.now()) pendingConfirmations.delete(token);
+          }
+          const token = randomUUID();
+          pendingConfirmations.set(token, { tool: tool.name, params: paramsKey, expires: Date.now() + CONFIRM_TTL_MS });
+          return toolResult({
+            confirmation_required: true,
+            message: `Nothing was changed. Call ${tool.name} again with the same parameters and confirm_token to proceed.`,
+            confirm_token: token,
+            expires_in_seconds: CONFIRM_TTL_MS / 1000,
+            requests: call.captured,
+          });
+        }
+        const pending = pendingConfirmations.get(String(confirm_token));
+        pendingConfirmations.delete(String(confirm_token));
+        if (!pending || pending.tool !== tool.name || pending.params !== paramsKey || pending.expires < Date.now()) {
+          throw new ToolError("validation", "Invalid or expired confirm_token for these parameters", {
+            field: "confirm_token",
+            hint: "Call again without confirm_token to get a new preview",
+          });
+        }
+      }
+
+      return toolCalls.run(newCall("execute"), run);
+    }
+
+    api.registerTool({
+      ...definition,
+      parameters,
+      async execute(id: string, params: Record<string, unknown>) {
+        try {
+          return await runTool(id, params);
+        } catch (err) {
+          // Input checks throw plain Errors; anything else (network failures, bugs) propagates as before
+          const known = err instanceof ToolError || err instanceof PipedriveApiError || err?.constructor === Error;
+          if (!known) throw err;
+          return errorResult(toToolError(err as Error, params));
+        }
+      },
+    });
+  }
+
+  // ============ SEARCH (v2) ============
+
+  registerTool({
+    name: "pipedrive_search",
+    description:
+      'Search deals, persons, organizations, leads, products and files at once, e.g. "Acme". Returns one ranked list; each hit has its type, ID, title and a one-line context',
+    parameters: Type.Object({
+      term: Type.String({ description: "Search term (at least 2 characters, 1 with exact_match)" }),
+      item_types: Type.Optional(
+        Type.Array(Type.String(), { description: `Only these types: ${SEARCH_ITEM_TYPES.join(", ")} (default: all)` })
+      ),
+      search_fields: Type.Optional(
+        Type.Array(Type.String(), { description: `Only match in these fields: ${SEARCH_FIELDS.join(", ")} (default: all)` })
+      ),
+      exact_match: Type.Optional(Type.Boolean({ description: "Only full, case-insensitive matches of the term" })),
+      include_related: Type.Optional(
+        Type.Boolean({ description: "Also list records related to the hits, e.g. the deals of a found organization" })
+      ),
+      limit: Type.Optional(Type.Number({ description: "Number of results (default 20, max 500)" })),
+      cursor: Type.Optional(Type.String({ description: "Pagination cursor from previous response" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { term, item_types, search_fields, exact_match, include_related, limit = 20, cursor } = params as {
+        term: string;
+        item_types?: string[];
+        search_fields?: string[];
+        exact_match?: boolean;
+        include_related?: boolean;
+        limit?: number;
+        cursor?: string;
+      };
+      if (term.trim().length < (exact_match ? 1 : 2)) {
+        throw new Error("term must be at least 2 characters (1 with exact_match)");
+      }
+      const types = (item_types ?? SEARCH_ITEM_TYPES).map((type) => {
+        const wanted = ({ org: "organization", people: "person" } as Record<string, string>)[singularize(type)] ?? singularize(type);
+        if (!SEARCH_ITEM_TYPES.includes(wanted)) throw new Error(`item_types must be among: ${SEARCH_ITEM_TYPES.join(", ")}`);
+        return wanted;
+      });
+      const unknownField = search_fields?.find((field) => !SEARCH_FIELDS.includes(field));
+      if (unknownField) throw new Error(`Unknown search field "${unknownField}". Valid fields: ${SEARCH_FIELDS.join(", ")}`);
+
+      const query = new URLSearchParams({ term: term.trim(), item_types: types.join(","), limit: String(limit) });
+      if (search_fields?.length) query.set("fields", search_fields.join(","));
+      if (exact_match) query.set("exact_match", "true");
+      if (include_related) query.set("search_for_related_items", "true");
+      if (cursor) query.set("cursor", cursor);
+      const page = await pipedriveRequest(`/itemSearch?${query}`);
+
+      const hits = rankSearchHits(page.data?.items ?? [], term, page.data?.related_items ?? []);
+      return toolResult(
+        {
+          data: hits,
+          additional_data: {
+            term: term.trim(),
+            item_types: types,
+            counts: Object.fromEntries(types.map((type) => [type, hits.filter((hit) => hit.type === type).length])),
+            next_cursor: page.additional_data?.next_cursor,
+          },
+        },
+        params
+      );
+    },
+  });
+
+  // ============ DEALS (v2) ============
+
+  registerTool({
+    name: "pipedrive_search_deals",
+    description: "Search Pipedrive deals by term",
+    parameters: Type.Object({
+      term: Type.String({ description: "Search term" }),
+      status: Type.Optional(stringEnum(DEAL_STATUSES, { description: "Filter by status" })),
+      limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { term, status, limit } = params as { term: string; status?: string; limit?: number };
+      const query = new URLSearchParams({ term });
+      if (status) query.set("status", status);
+      if (limit) query.set("limit", String(limit));
+      const data = await pipedriveRequest(`/deals/search?${query}`);
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_get_deal",
+    description: "Get details of a specific deal by ID",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Deal ID" }),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await labelCustomFields("deal", await pipedriveRequest(`/deals/${id}`));
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_list_deals",
+    description: "List deals with optional filters",
+    parameters: Type.Object({
+      ...listFilterParams.deal,
+      limit: Type.Optional(Type.Number({ description: "Number of results (default 100, max 500)" })),
+      cursor: Type.Optional(Type.String({ description: "Pagination cursor from previous response" })),
+      ...fetchAllParams,
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const data = await listWhere("/deals", "deal", params);
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_create_deal",
+    description: "Create a new deal in Pipedrive",
+    parameters: Type.Object({
+      title: Type.String({ description: "Deal title (required)" }),
+      value: Type.Optional(Type.Number({ description: "Deal value" })),
+      currency: Type.Optional(Type.String({ description: "Currency code (e.g., USD, EUR)" })),
+      person_id: Type.Optional(Type.Number({ description: "Associated person/contact ID" })),
+      org_id: Type.Optional(Type.Number({ description: "Associated organization ID" })),
+      stage_id: Type.Optional(Type.Number({ description: "Pipeline stage ID" })),
+      owner_id: Type.Optional(Type.Number({ description: "Owner user ID" })),
+      pipeline_id: Type.Optional(Type.Number({ description: "Pipeline ID" })),
+      expected_close_date: Type.Optional(dateParam("Expected close date (YYYY-MM-DD)")),
+      ...customFieldsParams,
+    }),
+    async execute(_id, params) {
+      await checkDealParams(params);
+      const body = await withCustomFields("deal", params);
+      const data = await pipedriveRequest("/deals", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_update_deal",
+    description: "Update an existing deal",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Deal ID to update (required)" }),
+      title: Type.Optional(Type.String({ description: "New title" })),
+      value: Type.Optional(Type.Number({ description: "New value" })),
+      currency: Type.Optional(Type.String({ description: "Currency code" })),
+      status: Type.Optional(stringEnum(DEAL_STATUSES, { description: "New status" })),
+      stage_id: Type.Optional(Type.Number({ description: "Move to stage ID" })),
+      owner_id: Type.Optional(Type.Number({ description: "New owner user ID" })),
+      pipeline_id: Type.Optional(Type.Number({ description: "Move to pipeline ID" })),
+      expected_close_date: Type.Optional(dateParam("Expected close date (YYYY-MM-DD)")),
+      lost_reason: Type.Optional(Type.String({ description: "Reason for losing (when status=lost)" })),
+      ...customFieldsParams,
+    }),
+    async execute(_id, params) {
+      const { id, ...updateParams } = params as { id: number } & Record<string, unknown>;
+      await checkDealParams(updateParams);
+      const body = await withCustomFields("deal", updateParams);
+      const data = await pipedriveRequest(`/deals/${id}`, {
+        method: "PATCH", // v2 uses PATCH instead of PUT
+        body: JSON.stringify(body),
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_delete_deal",
+    description: "Delete a deal (marks as deleted, 30-day retention)",
+    destructive: true,
+    parameters: Type.Object({
+      id: Type.Number({ description: "Deal ID to delete" }),
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await pipedriveRequest(`/deals/${id}`, { method: "DELETE" });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_get_deal_context",
+    description:
+      "Everything needed to prepare for a deal in one call: the deal, its people and organization, open next steps, and a chronological timeline of activities, notes, emails and stage changes",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Deal ID" }),
+      activities_limit: Type.Optional(Type.Number({ description: "Most recent completed activities to include (default 20)" })),
+      notes_limit: Type.Optional(Type.Number({ description: "Most recent notes to include (default 10)" })),
+      emails_limit: Type.Optional(Type.Number({ description: "Most recent emails to include (default 10)" })),
+      changes_limit: Type.Optional(Type.Number({ description: "Most recent stage/status/value changes to include (default 20)" })),
+      text_chars: Type.Optional(
+        Type.Number({ description: "Maximum characters of each note, email snippet or activity note (default 500)" })
+      ),
+    }),
+    async execute(_id, params) {
+      const {
+        id,
+        activities_limit = 20,
+        notes_limit = 10,
+        emails_limit = 10,
+        changes_limit = 20,
+        text_chars = 500,
+      } = params as {
+        id: number;
+        activities_limit?: number;
+        notes_limit?: number;
+        emails_limit?: number;
+        changes_limit?: number;
+        text_chars?: number;
+      };
+
+      // Everything but the deal itself is optional: a section that fails (e.g. no mailbox access) is reported, not fatal
+      const errors: Record<string, string> = {};
+      const optional = <T>(section: string, request: Promise<T>) =>
+        request.catch((err) => {
+          errors[section] = err instanceof Error ? err.message : String(err);
+          return undefined;
+        });
+      const text = (value: unknown) => (value ? truncate(htmlToText(String(value)), text_chars) : undefined);
+
+      const [deal, activities, notes, mail, flow, participants] = await Promise.all([
+        pipedriveRequest(`/deals/${id}`).then((res) => labelCustomFields("deal", res)),
+        optional("activities", pipedriveList("/activities", { deal_id: id, fetch_all: true, max_items: 1000 })),
+        optional("notes", pipedriveRequest(`/notes?deal_id=${id}&sort=add_time%20DESC&limit=${notes_limit}`, { useV1: true })),
+        optional("emails", pipedriveRequest(`/deals/${id}/mailMessages?limit=${emails_limit}`, { useV1: true })),
+        optional("changes", pipedriveRequest(`/deals/${id}/flow?items=dealChange&limit=100`, { useV1: true })),
+        optional("participants", pipedriveRequest(`/deals/${id}/participants?limit=100`, { useV1: true })),
+      ]);
+      const record = deal.data;
+      const [person, organization] = await Promise.all([
+        record.person_id ? optional("person", pipedriveRequest(`/persons/${record.person_id}`)) : undefined,
+        record.org_id ? optional("organization", pipedriveRequest(`/organizations/${record.org_id}`)) : undefined,
+      ]);
+
+      const values = (list: unknown) =>
+        Array.isArray(list) ? list.map((entry) => (isPlainObject(entry) ? entry.value : entry)).filter(Boolean) : [];
+      const people = new Map<number, { person_id: number; name: string; emails: unknown[]; phones: unknown[]; primary: boolean }>();
+      if (person?.data) {
+        const { id: personId, name, emails, phones } = person.data;
+        people.set(personId, { person_id: personId, name, emails: values(emails), phones: values(phones), primary: true });
+      }
+      for (const item of participants?.data ?? []) {
+        const entry = item.person ?? item.person_id;
+        const personId = entry?.id ?? entry?.value;
+        if (!personId || people.has(personId)) continue;
+        people.set(personId, {
+          person_id: personId,
+          name: entry.name,
+          emails: values(entry.emails ?? entry.email),
+          phones: values(entry.phones ?? entry.phone),
+          primary: false,
+        });
+      }
+
+      const today = new Date().toISOString().slice(0, 10);
+      const allActivities = (activities?.data ?? []) as Record<string, any>[];
+      const nextSteps = allActivities
+        .filter((activity) => !activity.done)
+        .sort((a, b) => `${a.due_date ?? "9999"} ${a.due_time ?? ""}`.localeCompare(`${b.due_date ?? "9999"} ${b.due_time ?? ""}`))
+        .map((activity) => ({
+          id: activity.id,
+          type: activity.type,
+          subject: activity.subject,
+          due_date: activity.due_date,
+          due_time: activity.due_time || undefined,
+          owner_id: activity.owner_id,
+          overdue: !!activity.due_date && activity.due_date < today,
+        }));
+
+      type TimelineEntry = { time: string; type: string; id?: number; summary: string; detail?: string; by?: unknown };
+      const mostRecent = (entries: TimelineEntry[], limit: number) =>
+        entries.sort((a, b) => b.time.localeCompare(a.time)).slice(0, limit);
+
+      const activityEntries = mostRecent(
+        allActivities
+          .filter((activity) => activity.done)
+          .map((activity) => ({
+            time: `${activity.due_date ?? activity.add_time?.slice(0, 10)}${activity.due_time ? ` ${activity.due_time}` : ""}`,
+            type: "activity",
+            id: activity.id,
+            summary: `${activity.type}: ${activity.subject}`,
+            detail: text(activity.note),
+            by: activity.owner_id,
+          })),
+        activities_limit
+      );
+      const noteEntries = ((notes?.data ?? []) as Record<string, any>[]).map((note) => ({
+        time: note.add_time,
+        type: "note",
+        id: note.id,
+        summary: text(note.content)?.split("\n")[0] ?? "",
+        detail: text(note.content),
+        by: note.user?.name ?? note.user_id,
+      }));
+      const emailEntries = ((mail?.data ?? []) as Record<string, any>[]).map((item) => {
+        const message = item.data ?? item;
+        const from = message.from?.[0];
+        return {
+          time: message.message_time ?? item.timestamp ?? message.add_time,
+          type: "email",
+          id: message.id,
+          summary: message.subject ?? "(no subject)",
+          detail: text(message.snippet),
+          by: from?.name || from?.email_address,
+        };
+      });
+      const changeEntries = mostRecent(
+        ((flow?.data ?? []) as Record<string, any>[])
+          .map((item) => item.data ?? item)
+          .filter((change) => ["stage_id", "status", "value", "user_id", "expected_close_date"].includes(change.field_key))
+          .map((change) => {
+            const formatted = change.additional_data ?? {};
+            const before = formatted.old_value_formatted ?? change.old_value;
+            const after = formatted.new_value_formatted ?? change.new_value;
+            return {
+              time: change.log_time,
+              type: change.field_key === "stage_id" ? "stage_change" : "deal_change",
+              summary:
+                change.field_key === "stage_id" ? `Stage: ${before} → ${after}` : `${change.field_key}: ${before ?? "(none)"} → ${after}`,
+              by: change.user_id,
+            };
+          }),
+        changes_limit
+      );
+
+      const timeline = [...activityEntries, ...noteEntries, ...emailEntries, ...changeEntries]
+        .filter((entry) => entry.time)
+        .sort((a, b) => a.time.localeCompare(b.time));
+
+      return toolResult({
+        deal: record,
+        organization: organization?.data && {
+          id: organization.data.id,
+          name: organization.data.name,
+          address: organization.data.address?.value ?? organization.data.address,
+        },
+        participants: [...people.values()],
+        next_steps: nextSteps,
+        timeline,
+        counts: {
+          open_activities: nextSteps.length,
+          done_activities: allActivities.length - nextSteps.length,
+          notes: noteEntries.length,
+          emails: emailEntries.length,
+          changes: changeEntries.length,
+        },
+        errors: Object.keys(errors).length ? errors : undefined,
+      });
+    },
+  });
+
+  // ============ PRODUCTS (v2) ============
+
+  const productPriceSchema = Type.Object({
+    currency: Type.String({ description: "Currency code (e.g., USD, EUR)" }),
+    price: Type.Number({ description: "Unit price" }),
+    cost: Type.Optional(Type.Number({ description: "Unit cost" })),
+    overhead_cost: Type.Optional(Type.Number({ description: "Overhead cost" })),
+  });
+
+  registerTool({
+    name: "pipedrive_search_products",
+    description: "Search products by name or code",
+    parameters: Type.Object({
+      term: Type.String({ description: "Search term (product name or code)" }),
+      exact_match: Type.Optional(Type.Boolean({ description: "Only return exact matches" })),
+      limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { term, exact_match, limit } = params as { term: string; exact_match?: boolean; limit?: number };
+      const query = new URLSearchParams({ term });
+      if (exact_match !== undefined) query.set("exact_match", String(exact_match));
+      if (limit) query.set("limit", String(limit));
+      const data = await pipedriveRequest(`/products/search?${query}`);
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_get_product",
+    description: "Get details of a specific product by ID, including prices",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Product ID" }),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await pipedriveRequest(`/products/${id}`);
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_list_products",
+    description: "List products in the catalogue with prices",
+    parameters: Type.Object({
+      owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
+      limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
+      cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
+      sort_by: Type.Optional(stringEnum(["id", "name", "add_time", "update_time"], { description: "Sort by" })),
+      sort_direction: Type.Optional(sortDirection),
+      ...fetchAllParams,
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const data = await pipedriveList("/products", params);
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_create_product",
+    description: "Create a new product in the catalogue",
+    parameters: Type.Object({
+      name: Type.String({ description: "Product name (required)" }),
+      code: Type.Optional(Type.String({ description: "Product code / SKU" })),
+      description: Type.Optional(Type.String({ description: "Product description" })),
+      unit: Type.Optional(Type.String({ description: "Unit of measure (e.g., seat, hour)" })),
+      tax: Type.Optional(Type.Number({ description: "Tax percentage" })),
+      category: Type.Optional(Type.Number({ description: "Category option ID" })),
+      owner_id: Type.Optional(Type.Number({ description: "Owner user ID" })),
+      prices: Type.Optional(Type.Array(productPriceSchema, { description: "Prices, one per currency" })),
+    }),
+    async execute(_id, params) {
+      const data = await pipedriveRequest("/products", {
+        method: "POST",
+        body: JSON.stringify(params),
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_list_product_variations",
+    description: "List the variations of a product (e.g. tiers or sizes) with their prices",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Product ID" }),
+      limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
+      ...fetchAllParams,
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { id, ...listParams } = params as { id: number } & Record<string, unknown>;
+      const data = await pipedriveList(`/products/${id}/variations`, listParams);
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_create_product_variation",
+    description: "Create a variation of a product with its own prices",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Product ID (required)" }),
+      name: Type.String({ description: "Variation name (required)" }),
+      prices: Type.Optional(Type.Array(productPriceSchema, { description: "Prices, one per currency" })),
+    }),
+    async execute(_id, params) {
+      const { id, ...body } = params as { id: number } & Record<string, unknown>;
+      const data = await pipedriveRequest(`/products/${id}/variations`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      return toolResult(data);
+    },
+  });
+
+  // ============ DEAL PRODUCTS (v2) ============
+
+  const dealValueParam = {
+    update_deal_value: Type.Optional(
+      Type.Boolean({ description: "Afterwards, set the deal value to the sum of its line items" })
+    ),
+  };
+
+  // Deal value = sum of enabled line item totals (after discount and tax, as computed by Pipedrive)
+  async function recomputeDealValue(dealId: number) {
+    const items = (await pipedriveList(`/deals/${dealId}/products`, { fetch_all: true, max_items: 10_000 })).data as {
+      sum?: number;
+      enabled_flag?: boolean;
+    }[];
+    const value = items
+      .filter((item) => item.enabled_flag !== false)
+      .reduce((total, item) => total + (item.sum ?? 0), 0);
+    const rounded = Math.round(value * 100) / 100;
+    await pipedriveRequest(`/deals/${dealId}`, { method: "PATCH", body: JSON.stringify({ value: rounded }) });
+    return rounded;
+  }
+
+  registerTool({
+    name: "pipedrive_list_deal_products",
+    description: "List the products (line items) attached to a deal, with quantity, price, discount and totals",
+    parameters: Type.Object({
+      deal_id: Type.Number({ description: "Deal ID (required)" }),
+      limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
+      ...fetchAllParams,
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { deal_id, ...listParams } = params as { deal_id: number } & Record<string, unknown>;
+      const data = await pipedriveList(`/deals/${deal_id}/products`, listParams);
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_add_deal_product",
+    description: "Attach a product to a deal as a line item",
+    parameters: Type.Object({
+      deal_id: Type.Number({ description: "Deal ID (required)" }),
+      product_id: Type.Number({ description: "Product ID (required)" }),
+      item_price: Type.Number({ description: "Price per unit (required)" }),
+      quantity: Type.Number({ description: "Quantity (required)" }),
+      discount: Type.Optional(Type.Number({ description: "Discount (see discount_type)" })),
+      discount_type: Type.Optional(
+        stringEnum(["percentage", "amount"], { description: "Discount type (default percentage)" })
+      ),
+      tax: Type.Optional(Type.Number({ description: "Tax percentage" })),
+      product_variation_id: Type.Optional(Type.Number({ description: "Product variation ID" })),
+      comments: Type.Optional(Type.String({ description: "Line item comments" })),
+      ...dealValueParam,
+    }),
+    async execute(_id, params) {
+      const { deal_id, update_deal_value, ...body } = params as { deal_id: number; update_deal_value?: boolean } &
+        Record<string, unknown>;
+      const data = await pipedriveRequest(`/deals/${deal_id}/products`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      if (update_deal_value) {
+        data.additional_data = { ...data.additional_data, deal_value: await recomputeDealValue(deal_id) };
+      }
+      return toolResult(data);
+    },
+  });
 
-  if (!cfg.apiKey || !domain) {
-    console.warn("[pipedrive] Plugin not configured: missing apiKey or domain/siteUrl");
-    return;
-  }
+  registerTool({
+    name: "pipedrive_update_deal_product",
+    description: "Update a line item on a deal (quantity, price, discount)",
+    parameters: Type.Object({
+      deal_id: Type.Number({ description: "Deal ID (required)" }),
+      product_attachment_id: Type.Number({ description: "Line item ID from pipedrive_list_deal_products (required)" }),
+      item_price: Type.Optional(Type.Number({ description: "New price per unit" })),
+      quantity: Type.Optional(Type.Number({ description: "New quantity" })),
+      discount: Type.Optional(Type.Number({ description: "New discount" })),
+      discount_type: Type.Optional(stringEnum(["percentage", "amount"], { description: "Discount type" })),
+      tax: Type.Optional(Type.Number({ description: "New tax percentage" })),
+      comments: Type.Optional(Type.String({ description: "New comments" })),
+      ...dealValueParam,
+    }),
+    async execute(_id, params) {
+      const { deal_id, product_attachment_id, update_deal_value, ...body } = params as {
+        deal_id: number;
+        product_attachment_id: number;
+        update_deal_value?: boolean;
+      } & Record<string, unknown>;
+      const data = await pipedriveRequest(`/deals/${deal_id}/products/${product_attachment_id}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      });
+      if (update_deal_value) {
+        data.additional_data = { ...data.additional_data, deal_value: await recomputeDealValue(deal_id) };
+      }
+      return toolResult(data);
+    },
+  });
 
-  const baseUrlV2 = `https://${domain}.pipedrive.com/api/v2`;
-  const baseUrlV1 = `https://${domain}.pipedrive.com/api/v1`; // For endpoints not yet in v2
+  registerTool({
+    name: "pipedrive_delete_deal_product",
+    description: "Remove a line item from a deal",
+    destructive: true,
+    parameters: Type.Object({
+      deal_id: Type.Number({ description: "Deal ID (required)" }),
+      product_attachment_id: Type.Number({ description: "Line item ID from pipedrive_list_deal_products (required)" }),
+      ...dealValueParam,
+    }),
+    async execute(_id, params) {
+      const { deal_id, product_attachment_id, update_deal_value } = params as {
+        deal_id: number;
+        product_attachment_id: number;
+        update_deal_value?: boolean;
+      };
+      const data = await pipedriveRequest(`/deals/${deal_id}/products/${product_attachment_id}`, { method: "DELETE" });
+      if (update_deal_value) {
+        data.additional_data = { ...data.additional_data, deal_value: await recomputeDealValue(deal_id) };
+      }
+      return toolResult(data);
+    },
+  });
 
-  async function pipedriveRequest(endpoint: string, options?: RequestInit & { useV1?: boolean }) {
-    const baseUrl = options?.useV1 ? baseUrlV1 : baseUrlV2;
-    const url = new URL(`${baseUrl}${endpoint}`);
-    url.searchParams.set("api_token", cfg.apiKey!);
+  // ============ PERSONS (v2) ============
 
-    const { useV1, ...fetchOptions } = options || {};
-    const res = await fetch(url.toString(), {
-      ...fetchOptions,
-      headers: {
-        "Content-Type": "application/json",
-        ...fetchOptions?.headers,
-      },
-    });
-    if (!res.ok) {
-      const error = await res.text();
-      throw new Error(`Pipedrive API error (${res.status}): ${error}`);
-    }
-    return res.json();
-  }
+  registerTool({
+    name: "pipedrive_search_persons",
+    description: "Search for persons/contacts by name, email, phone, or notes",
+    parameters: Type.Object({
+      term: Type.String({ description: "Search term (name, email, phone)" }),
+      limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { term, limit } = params as { term: string; limit?: number };
+      const query = new URLSearchParams({ term });
+      if (limit) query.set("limit", String(limit));
+      const data = await pipedriveRequest(`/persons/search?${query}`);
+      return toolResult(data, params);
+    },
+  });
 
-  // ============ DEALS (v2) ============
+  registerTool({
+    name: "pipedrive_get_person",
+    description: "Get details of a specific person by ID",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Person ID" }),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await labelCustomFields("person", await pipedriveRequest(`/persons/${id}`));
+      return toolResult(data, params);
+    },
+  });
 
-  api.registerTool({
-    name: "pipedrive_search_deals",
-    description: "Search Pipedrive deals by term",
+  registerTool({
+    name: "pipedrive_list_persons",
+    description: "List all persons with optional filters",
     parameters: Type.Object({
-      term: Type.String({ description: "Search term" }),
-      status: Type.Optional(
-        Type.String({ description: "Filter by status: open, won, lost, deleted" })
-      ),
+      ...listFilterParams.person,
       limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
+      cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const { term, status, limit } = params as { term: string; status?: string; limit?: number };
+      const data = await listWhere("/persons", "person", params);
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_create_person",
+    description: "Create a new person/contact",
+    parameters: Type.Object({
+      name: Type.String({ description: "Person name (required)" }),
+      email: Type.Optional(Type.String({ description: "Email address" })),
+      phone: Type.Optional(Type.String({ description: "Phone number" })),
+      org_id: Type.Optional(Type.Number({ description: "Associated organization ID" })),
+      owner_id: Type.Optional(Type.Number({ description: "Owner user ID" })),
+      ...customFieldsParams,
+      ...duplicateCheckParam,
+    }),
+    async execute(_id, params) {
+      const { check_duplicates = !!cfg.duplicateCheck, ...rest } = params as {
+        name: string;
+        email?: string;
+        phone?: string;
+        check_duplicates?: boolean;
+      } & Record<string, unknown>;
+      if (check_duplicates) {
+        const matches = await findExistingMatches("person", rest);
+        if (matches.length) return duplicatesFound("person", matches);
+      }
+      const body = await personBody(rest);
+
+      const data = await pipedriveRequest("/persons", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_update_person",
+    description: "Update an existing person/contact",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Person ID to update (required)" }),
+      name: Type.Optional(Type.String({ description: "New name" })),
+      email: Type.Optional(Type.String({ description: "New email" })),
+      phone: Type.Optional(Type.String({ description: "New phone" })),
+      org_id: Type.Optional(Type.Number({ description: "New organization ID" })),
+      owner_id: Type.Optional(Type.Number({ description: "New owner user ID" })),
+      ...customFieldsParams,
+    }),
+    async execute(_id, params) {
+      const { id, ...rest } = params as { id: number } & Record<string, unknown>;
+      const body = await personBody(rest);
+
+      const data = await pipedriveRequest(`/persons/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_delete_person",
+    description: "Delete a person (marks as deleted, 30-day retention)",
+    destructive: true,
+    parameters: Type.Object({
+      id: Type.Number({ description: "Person ID to delete" }),
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await pipedriveRequest(`/persons/${id}`, { method: "DELETE" });
+      return toolResult(data);
+    },
+  });
+
+  // ============ ORGANIZATIONS (v2) ============
+
+  registerTool({
+    name: "pipedrive_search_organizations",
+    description: "Search for organizations by name, address, or notes",
+    parameters: Type.Object({
+      term: Type.String({ description: "Search term (organization name)" }),
+      limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { term, limit } = params as { term: string; limit?: number };
       const query = new URLSearchParams({ term });
-      if (status) query.set("status", status);
       if (limit) query.set("limit", String(limit));
-      const data = await pipedriveRequest(`/deals/search?${query}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveRequest(`/organizations/search?${query}`);
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_get_deal",
-    description: "Get details of a specific deal by ID",
+  registerTool({
+    name: "pipedrive_get_organization",
+    description: "Get details of a specific organization by ID",
     parameters: Type.Object({
-      id: Type.Number({ description: "Deal ID" }),
+      id: Type.Number({ description: "Organization ID" }),
+      ...outputParams,
     }),
     async execute(_id, params) {
       const { id } = params as { id: number };
-      const data = await pipedriveRequest(`/deals/${id}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await labelCustomFields("organization", await pipedriveRequest(`/organizations/${id}`));
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_list_deals",
-    description: "List deals with optional filters",
+  registerTool({
+    name: "pipedrive_list_organizations",
+    description: "List all organizations with optional filters",
     parameters: Type.Object({
-      status: Type.Optional(Type.String({ description: "Filter by status: open, won, lost, deleted" })),
-      stage_id: Type.Optional(Type.Number({ description: "Filter by pipeline stage ID" })),
-      owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
-      person_id: Type.Optional(Type.Number({ description: "Filter by person ID" })),
-      org_id: Type.Optional(Type.Number({ description: "Filter by organization ID" })),
-      pipeline_id: Type.Optional(Type.Number({ description: "Filter by pipeline ID" })),
-      limit: Type.Optional(Type.Number({ description: "Number of results (default 100, max 500)" })),
-      cursor: Type.Optional(Type.String({ description: "Pagination cursor from previous response" })),
-      sort_by: Type.Optional(Type.String({ description: "Sort by: id, add_time, update_time" })),
-      sort_direction: Type.Optional(Type.String({ description: "Sort direction: asc, desc" })),
+      ...listFilterParams.organization,
+      limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
+      cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const query = new URLSearchParams();
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) query.set(key, String(value));
-      }
-      const data = await pipedriveRequest(`/deals?${query}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await listWhere("/organizations", "organization", params);
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_create_deal",
-    description: "Create a new deal in Pipedrive",
+  registerTool({
+    name: "pipedrive_create_organization",
+    description: "Create a new organization",
     parameters: Type.Object({
-      title: Type.String({ description: "Deal title (required)" }),
-      value: Type.Optional(Type.Number({ description: "Deal value" })),
-      currency: Type.Optional(Type.String({ description: "Currency code (e.g., USD, EUR)" })),
-      person_id: Type.Optional(Type.Number({ description: "Associated person/contact ID" })),
-      org_id: Type.Optional(Type.Number({ description: "Associated organization ID" })),
-      stage_id: Type.Optional(Type.Number({ description: "Pipeline stage ID" })),
+      name: Type.String({ description: "Organization name (required)" }),
+      address: Type.Optional(Type.String({ description: "Address" })),
       owner_id: Type.Optional(Type.Number({ description: "Owner user ID" })),
-      pipeline_id: Type.Optional(Type.Number({ description: "Pipeline ID" })),
-      expected_close_date: Type.Optional(Type.String({ description: "Expected close date (YYYY-MM-DD)" })),
+      ...customFieldsParams,
+      ...duplicateCheckParam,
     }),
     async execute(_id, params) {
-      const data = await pipedriveRequest("/deals", {
+      const { check_duplicates = !!cfg.duplicateCheck, ...rest } = params as { check_duplicates?: boolean } & Record<
+        string,
+        unknown
+      >;
+      if (check_duplicates) {
+        const matches = await findExistingMatches("organization", { name: String(rest.name) });
+        if (matches.length) return duplicatesFound("organization", matches);
+      }
+      const body = await withCustomFields("organization", rest);
+      const data = await pipedriveRequest("/organizations", {
         method: "POST",
-        body: JSON.stringify(params),
+        body: JSON.stringify(body),
       });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_update_deal",
-    description: "Update an existing deal",
+  registerTool({
+    name: "pipedrive_update_organization",
+    description: "Update an existing organization",
     parameters: Type.Object({
-      id: Type.Number({ description: "Deal ID to update (required)" }),
-      title: Type.Optional(Type.String({ description: "New title" })),
-      value: Type.Optional(Type.Number({ description: "New value" })),
-      currency: Type.Optional(Type.String({ description: "Currency code" })),
-      status: Type.Optional(Type.String({ description: "Status: open, won, lost, deleted" })),
-      stage_id: Type.Optional(Type.Number({ description: "Move to stage ID" })),
+      id: Type.Number({ description: "Organization ID to update (required)" }),
+      name: Type.Optional(Type.String({ description: "New name" })),
+      address: Type.Optional(Type.String({ description: "New address" })),
       owner_id: Type.Optional(Type.Number({ description: "New owner user ID" })),
-      pipeline_id: Type.Optional(Type.Number({ description: "Move to pipeline ID" })),
-      expected_close_date: Type.Optional(Type.String({ description: "Expected close date (YYYY-MM-DD)" })),
-      lost_reason: Type.Optional(Type.String({ description: "Reason for losing (when status=lost)" })),
+      ...customFieldsParams,
     }),
     async execute(_id, params) {
       const { id, ...updateParams } = params as { id: number } & Record<string, unknown>;
-      const data = await pipedriveRequest(`/deals/${id}`, {
-        method: "PATCH", // v2 uses PATCH instead of PUT
-        body: JSON.stringify(updateParams),
+      const body = await withCustomFields("organization", updateParams);
+      const data = await pipedriveRequest(`/organizations/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_delete_organization",
+    description: "Delete an organization (marks as deleted, 30-day retention)",
+    destructive: true,
+    parameters: Type.Object({
+      id: Type.Number({ description: "Organization ID to delete" }),
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await pipedriveRequest(`/organizations/${id}`, { method: "DELETE" });
+      return toolResult(data);
+    },
+  });
+
+  // ============ DUPLICATES & MERGE (v2 lists, v1 merge) ============
+
+  registerTool({
+    name: "pipedrive_find_duplicates",
+    description:
+      "Find likely duplicate persons or organizations by normalized email, phone (E.164), name similarity and company/website domain. Returns clusters with confidence scores and a suggested record to keep",
+    parameters: Type.Object({
+      entity: stringEnum(["person", "organization"], { description: "Records to check" }),
+      id: Type.Optional(Type.Number({ description: "Only return the cluster containing this record" })),
+      min_confidence: Type.Optional(Type.Number({ description: "Minimum match confidence, 0-1 (default 0.6)" })),
+      default_country_code: Type.Optional(
+        Type.String({ description: 'Country calling code for phone numbers without one, e.g. "1" or "44"' })
+      ),
+      limit: Type.Optional(Type.Number({ description: "Maximum clusters to return (default 50)" })),
+      max_records: Type.Optional(Type.Number({ description: "Maximum records to scan (default 5000)" })),
+    }),
+    async execute(_id, params) {
+      const { entity, id, min_confidence = 0.6, default_country_code, limit = 50, max_records = 5000 } = params as {
+        entity: string;
+        id?: number;
+        min_confidence?: number;
+        default_country_code?: string;
+        limit?: number;
+        max_records?: number;
+      };
+      const kind = singularize(entity) === "person" ? "person" : singularize(entity) === "organization" ? "organization" : undefined;
+      if (!kind) throw new Error('entity must be "person" or "organization"');
+
+      const page = await pipedriveList(kind === "person" ? "/persons" : "/organizations", {
+        fetch_all: true,
+        max_items: max_records,
+      });
+      const records = (page.data as Record<string, any>[]).map((raw) => toDuplicateRecord(kind, raw, default_country_code));
+      const clusters = findDuplicateClusters(kind, records, min_confidence).filter(
+        (cluster) => id === undefined || cluster.records.some((record) => record.id === id)
+      );
+      return toolResult({
+        data: clusters.slice(0, limit),
+        additional_data: { scanned: records.length, clusters: clusters.length, truncated: page.additional_data.truncated },
+      });
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_merge_persons",
+    description:
+      "Merge a duplicate person into another. The person in merge_with_id is kept and wins conflicting values; the person in id is merged into it and removed",
+    destructive: true,
+    parameters: Type.Object({
+      id: Type.Number({ description: "Duplicate person ID to merge away" }),
+      merge_with_id: Type.Number({ description: "Person ID to keep" }),
+    }),
+    async execute(_id, params) {
+      const { id, merge_with_id } = params as { id: number; merge_with_id: number };
+      const data = await pipedriveRequest(`/persons/${id}/merge`, {
+        method: "PUT",
+        body: JSON.stringify({ merge_with_id }),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_merge_organizations",
+    description:
+      "Merge a duplicate organization into another. The organization in merge_with_id is kept and wins conflicting values; the organization in id is merged into it and removed",
+    destructive: true,
+    parameters: Type.Object({
+      id: Type.Number({ description: "Duplicate organization ID to merge away" }),
+      merge_with_id: Type.Number({ description: "Organization ID to keep" }),
+    }),
+    async execute(_id, params) {
+      const { id, merge_with_id } = params as { id: number; merge_with_id: number };
+      const data = await pipedriveRequest(`/organizations/${id}/merge`, {
+        method: "PUT",
+        body: JSON.stringify({ merge_with_id }),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
+
+  // ============ IMPORT (v2) ============
+
+  registerTool({
+    name: "pipedrive_import_records",
+    description:
+      "Import persons, organizations and deals from a local CSV or JSON file. Maps columns to fields (custom fields by name, owner by email), reuses existing records, links persons to organizations and deals to both, and writes a per-row result file. Use dry_run first",
+    dryRunReport: true,
+    parameters: Type.Object({
+      path: Type.String({ description: "Local .csv file, or .json file with an array of objects" }),
+      mapping: Type.Optional(
+        Type.Record(Type.String(), Type.String(), {
+          description:
+            'Column -> field, e.g. { "Full Name": "person.name", "E-mail": "person.email", "Company": "org.name", "Opportunity": "deal.title", "Rep": "owner_email", "Source": "person.Lead Source" }. Default: columns already named like person.name',
+        })
+      ),
+      dedupe: Type.Optional(
+        Type.Boolean({
+          description: "Reuse existing persons (same email or phone) and organizations (same name) instead of creating them (default true)",
+        })
+      ),
+      concurrency: Type.Optional(Type.Number({ description: "Rows processed in parallel, 1-10 (default 4)" })),
+      delimiter: Type.Optional(Type.String({ description: "CSV delimiter (default: detected from the header row)" })),
+      result_path: Type.Optional(Type.String({ description: "Where to write per-row results (default: next to the input file)" })),
+    }),
+    async execute(_id, params) {
+      const { path, mapping, dedupe = true, concurrency = 4, delimiter, result_path } = params as {
+        path: string;
+        mapping?: Record<string, string>;
+        dedupe?: boolean;
+        concurrency?: number;
+        delimiter?: string;
+        result_path?: string;
+      };
+      const inputPath = expandPath(path);
+      const isJson = extname(inputPath).toLowerCase() === ".json";
+      const text = await readFile(inputPath, "utf8");
+      let rows: Record<string, string>[];
+      if (isJson) {
+        const parsed = JSON.parse(text);
+        if (!Array.isArray(parsed)) throw new Error("A JSON import file must contain an array of objects");
+        // Nested entities ({ "person": { "name": ... } }) become "person.name" columns
+        rows = parsed.map((record) =>
+          Object.fromEntries(
+            Object.entries(flattenRecord(isPlainObject(record) ? record : {})).map(([key, value]) => [key, String(value)])
+          )
+        );
+      } else {
+        rows = parseCsv(text, delimiter);
+      }
+      if (!rows.length) throw new Error(`No rows found in ${inputPath}`);
+      if (rows.length > MAX_IMPORT_ROWS) throw new Error(`${rows.length} rows; split the file into parts of at most ${MAX_IMPORT_ROWS}`);
+
+      const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+      const columnMapping = mapping ?? Object.fromEntries(columns.filter((c) => parseImportTarget(c)).map((c) => [c, c]));
+      const invalid = Object.entries(columnMapping).filter(([, target]) => !parseImportTarget(target));
+      if (invalid.length) {
+        throw new Error(
+          `Invalid mapping target(s): ${invalid.map(([column, target]) => `${column} -> ${target}`).join(", ")}. Use person.<field>, org.<field>, deal.<field> or owner_email`
+        );
+      }
+      if (!Object.keys(columnMapping).length) {
+        throw new Error(`No columns to import among ${columns.join(", ")}. Pass mapping, or name columns like person.name`);
+      }
+
+      // In a dry run nothing is created; the report shows what would be
+      const dryRun = toolCalls.getStore()?.mode === "dry_run";
+      const createdAction = dryRun ? "would_create" : "created";
+
+      let owners: Promise<Map<string, number>> | undefined;
+      async function ownerId(email: string) {
+        owners ??= pipedriveRequest("/users", { useV1: true }).then(
+          (res) => new Map((res.data ?? []).map((user: { id: number; email: string }) => [user.email.toLowerCase(), user.id]))
+        );
+        const id = (await owners).get(email.toLowerCase());
+        if (id === undefined) throw new Error(`No Pipedrive user with email ${email}`);
+        return id;
+      }
+
+      // Rows naming the same organization or person share one lookup/create, even when processed in parallel
+      type Resolved = { id: number | null; action: string; row: number; match?: string };
+      const existing = (match: Awaited<ReturnType<typeof findExistingMatches>>[number], row: number): Resolved => ({
+        id: match.record.id,
+        action: "existing",
+        row,
+        match: `${match.record.name} (${match.record.id}): ${match.reasons.join(", ")}`,
+      });
+      const orgs = new Map<string, Promise<Resolved>>();
+      const persons = new Map<string, Promise<Resolved>>();
+      async function resolveOnce(cache: Map<string, Promise<Resolved>>, key: string, row: number, work: () => Promise<Resolved>) {
+        let pending = cache.get(key);
+        if (!pending) {
+          pending = work();
+          cache.set(key, pending);
+        }
+        const resolved = await pending;
+        return resolved.row === row || resolved.action === "existing" ? resolved : { ...resolved, action: `same_as_row_${resolved.row}` };
+      }
+
+      async function importRow(raw: Record<string, string>, row: number): Promise<ImportRowResult> {
+        const result: ImportRowResult = { row, status: "ok" };
+        try {
+          const { owner_email, person, org, deal } = mapImportRow(raw, columnMapping);
+          const owner_id = owner_email ? await ownerId(owner_email) : undefined;
+
+          if (Object.keys(org).length) {
+            if (!org.name) throw new Error("org.name is required when other organization columns are set");
+            const name = String(org.name);
+            const resolved = await resolveOnce(orgs, normalizeName(name, "organization"), row, async () => {
+              if (dedupe) {
+                const [match] = await findExistingMatches("organization", { name });
+                if (match && match.confidence >= IMPORT_MATCH_CONFIDENCE) return existing(match, row);
+              }
+              const body = await withCustomFields("organization", { ...org, owner_id });
+              const res = await pipedriveRequest("/organizations", { method: "POST", body: JSON.stringify(body) });
+              return { id: res.data?.id ?? null, action: createdAction, row };
+            });
+            result.org_id = resolved.id;
+            result.org_action = resolved.action;
+            result.org_match = resolved.match;
+          }
+
+          if (Object.keys(person).length) {
+            if (!person.name) throw new Error("person.name is required when other person columns are set");
+            const { name, email, phone } = person as { name: string; email?: string; phone?: string };
+            const key = email ? normalizeEmail(email) : phone ? normalizePhone(phone) : `${normalizeName(name, "person")}|${result.org_id}`;
+            const resolved = await resolveOnce(persons, key, row, async () => {
+              // Name-only rows match only with the same organization; a name alone is too weak
+              if (dedupe) {
+                const [match] = await findExistingMatches("person", { name, email, phone, org_id: result.org_id ?? undefined });
+                if (match && match.confidence >= IMPORT_MATCH_CONFIDENCE) return existing(match, row);
+              }
+              const body = await personBody({ ...person, org_id: result.org_id ?? undefined, owner_id });
+              const res = await pipedriveRequest("/persons", { method: "POST", body: JSON.stringify(body) });
+              return { id: res.data?.id ?? null, action: createdAction, row };
+            });
+            result.person_id = resolved.id;
+            result.person_action = resolved.action;
+            result.person_match = resolved.match;
+          }
+
+          if (Object.keys(deal).length) {
+            if (!deal.title) throw new Error("deal.title is required when other deal columns are set");
+            const body = await withCustomFields("deal", {
+              ...deal,
+              person_id: result.person_id ?? undefined,
+              org_id: result.org_id ?? undefined,
+              owner_id,
+            });
+            const res = await pipedriveRequest("/deals", { method: "POST", body: JSON.stringify(body) });
+            result.deal_id = res.data?.id ?? null;
+            result.deal_action = createdAction;
+          }
+        } catch (err) {
+          result.status = "failed";
+          result.error = err instanceof Error ? err.message : String(err);
+        }
+        return result;
+      }
+
+      // A fixed pool of workers; the shared rate limiter still paces the requests themselves
+      const results: ImportRowResult[] = new Array(rows.length);
+      let next = 0;
+      const workers = Math.min(Math.max(1, Math.floor(concurrency)), 10, rows.length);
+      await Promise.all(
+        Array.from({ length: workers }, async () => {
+          while (next < rows.length) {
+            const index = next++;
+            results[index] = await importRow(rows[index], index + 1);
+          }
+        })
+      );
+
+      const resultPath = result_path
+        ? expandPath(result_path)
+        : join(dirname(inputPath), `${basename(inputPath, extname(inputPath))}.${dryRun ? "dry-run" : "results"}${isJson ? ".json" : ".csv"}`);
+      await writeFile(resultPath, isJson ? JSON.stringify(results, null, 2) : toCsv(results, IMPORT_RESULT_COLUMNS));
+
+      const tally = (key: "org_action" | "person_action" | "deal_action") => {
+        const counts: Record<string, number> = {};
+        for (const result of results) {
+          const action = result[key]?.startsWith("same_as_row_") ? "reused" : result[key];
+          if (action) counts[action] = (counts[action] ?? 0) + 1;
+        }
+        return counts;
+      };
+      const failed = results.filter((result) => result.status === "failed");
+      return toolResult({
+        dry_run: dryRun,
+        rows: rows.length,
+        ok: rows.length - failed.length,
+        failed: failed.length,
+        organizations: tally("org_action"),
+        persons: tally("person_action"),
+        deals: tally("deal_action"),
+        mapping: columnMapping,
+        ignored_columns: columns.filter((column) => !(column in columnMapping)),
+        result_file: resultPath,
+        failures: failed.slice(0, 20).map(({ row, error }) => ({ row, error })),
       });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_delete_deal",
-    description: "Delete a deal (marks as deleted, 30-day retention)",
+  // ============ EXPORT (v2) ============
+
+  const EXPORT_SOURCES: Record<string, { path: string; entity: FieldEntity }> = {
+    deals: { path: "/deals", entity: "deal" },
+    persons: { path: "/persons", entity: "person" },
+    organizations: { path: "/organizations", entity: "organization" },
+    activities: { path: "/activities", entity: "activity" },
+  };
+
+  // Reference columns that get a readable name column next to them
+  const EXPORT_REFERENCES: Record<string, { path: string; label: string; column: string }> = {
+    owner_id: { path: "/users", label: "name", column: "owner_name" },
+    user_id: { path: "/users", label: "name", column: "user_name" },
+    person_id: { path: "/persons", label: "name", column: "person_name" },
+    org_id: { path: "/organizations", label: "name", column: "org_name" },
+    deal_id: { path: "/deals", label: "title", column: "deal_title" },
+  };
+
+  async function referenceNames(path: string, label: string, ids: number[]) {
+    const names = new Map<number, string>();
+    if (!ids.length) return names;
+    if (path === "/users") {
+      const users = await pipedriveRequest("/users", { useV1: true });
+      for (const user of users.data ?? []) names.set(user.id, user[label]);
+      return names;
+    }
+    // v2 list endpoints take up to 100 ids per call
+    for (let i = 0; i < ids.length; i += 100) {
+      const chunk = ids.slice(i, i + 100);
+      const page = await pipedriveRequest(`${path}?ids=${chunk.join(",")}&limit=100`);
+      for (const record of page.data ?? []) names.set(record.id, record[label]);
+    }
+    return names;
+  }
+
+  registerTool({
+    name: "pipedrive_export_records",
+    description:
+      "Export deals, persons, organizations or activities to a local CSV, JSON Lines or Markdown file. Pages through all matching records, adds owner/person/org names and custom field labels, and flattens nested values into columns",
     parameters: Type.Object({
-      id: Type.Number({ description: "Deal ID to delete" }),
+      entity: stringEnum(Object.keys(EXPORT_SOURCES), { description: "Records to export" }),
+      format: Type.Optional(stringEnum(["csv", "jsonl", "markdown"], { description: "File format (default csv)" })),
+      path: Type.Optional(
+        Type.String({ description: "Output file (default ~/.openclaw/exports/<entity>-<timestamp>.<ext>)" })
+      ),
+      columns: Type.Optional(
+        Type.Array(Type.String(), {
+          description: 'Columns to include, in order, e.g. ["id", "title", "value", "owner_name", "Lead Source"]. Default: all',
+        })
+      ),
+      // The filters of every list tool; each entity takes those of its own list tool
+      ...listFilterParams.activity,
+      ...listFilterParams.organization,
+      ...listFilterParams.person,
+      ...listFilterParams.deal,
+      sort_by: Type.Optional(
+        stringEnum(["id", "add_time", "update_time", "name", "due_date"], {
+          description: "Sort by; name is for persons and organizations, due_date for activities",
+        })
+      ),
+      min_value: Type.Optional(Type.Number({ description: "Deals: only value >= this" })),
+      max_value: Type.Optional(Type.Number({ description: "Deals: only value <= this" })),
+      max_items: Type.Optional(Type.Number({ description: "Maximum records to export (default 10000)" })),
     }),
     async execute(_id, params) {
-      const { id } = params as { id: number };
-      const data = await pipedriveRequest(`/deals/${id}`, { method: "DELETE" });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const {
+        entity,
+        format = "csv",
+        path,
+        columns,
+        min_value,
+        max_value,
+        max_items = 10_000,
+        ...filters
+      } = params as {
+        entity: string;
+        format?: string;
+        path?: string;
+        columns?: string[];
+        min_value?: number;
+        max_value?: number;
+        max_items?: number;
+      } & Record<string, unknown>;
+      const source = EXPORT_SOURCES[entity];
+      const extension = { csv: "csv", jsonl: "jsonl", markdown: "md" }[format];
+      if (!extension) throw new Error("format must be csv, jsonl or markdown");
+      const accepted = listFilterParams[source.entity];
+      const foreign = Object.keys(filters).find((key) => filters[key] !== undefined && !(key in accepted));
+      if (foreign) {
+        throw new ToolError("validation", `${foreign} does not filter ${entity}`, {
+          field: foreign,
+          hint: `Filters for ${entity}: ${Object.keys(accepted).join(", ")}`,
+        });
+      }
+      const invalid = invalidParams(Type.Object(accepted), filters);
+      if (invalid) throw invalid;
+
+      const page = await listWhere(source.path, source.entity, { ...filters, fetch_all: true, max_items });
+      const records = (page.data as Record<string, any>[]).filter(
+        (record) =>
+          (min_value === undefined || (record.value ?? 0) >= min_value) &&
+          (max_value === undefined || (record.value ?? 0) <= max_value)
+      );
+
+      const names = new Map<string, Map<number, string>>();
+      for (const [key, reference] of Object.entries(EXPORT_REFERENCES)) {
+        const ids = [...new Set(records.map((record) => record[key]).filter((id): id is number => typeof id === "number"))];
+        if (ids.length) names.set(key, await referenceNames(reference.path, reference.label, ids));
+      }
+
+      const rows = records.map((record) => {
+        const { custom_fields, ...rest } = record;
+        // Custom fields become top-level columns named by their labels
+        const flat = flattenRecord({ ...rest, ...(isPlainObject(custom_fields) ? custom_fields : {}) });
+        const row: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(flat)) {
+          row[key] = value;
+          const lookup = names.get(key);
+          if (lookup) row[EXPORT_REFERENCES[key].column] = lookup.get(value as number);
+        }
+        return row;
+      });
+      const header = columns?.length ? columns : [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+      const file = expandPath(path ?? `~/.openclaw/exports/${entity}-${stamp}.${extension}`);
+      const content =
+        format === "csv"
+          ? toCsv(rows, header)
+          : format === "jsonl"
+            ? rows.map((row) => JSON.stringify(Object.fromEntries(header.map((column) => [column, row[column] ?? null])))).join("\n") + "\n"
+            : toMarkdownTable(rows, header) + "\n";
+      await mkdir(dirname(file), { recursive: true });
+      await writeFile(file, content);
+
+      return toolResult({
+        file,
+        format,
+        rows: rows.length,
+        columns: header,
+        truncated: page.additional_data.truncated,
+        where: page.additional_data.where,
+      });
     },
   });
 
-  // ============ PERSONS (v2) ============
+  // ============ LEADS (v1, search and conversion v2) ============
 
-  api.registerTool({
-    name: "pipedrive_search_persons",
-    description: "Search for persons/contacts by name, email, phone, or notes",
+  // Leads take value as { amount, currency }; the tools accept flat value/currency like deals do
+  function leadBody(params: Record<string, unknown>) {
+    const { value, currency, ...rest } = params as { value?: number; currency?: string } & Record<string, unknown>;
+    if (value === undefined) return rest;
+    if (!currency) throw new Error("currency is required when value is set (e.g. USD, EUR)");
+    return { ...rest, value: { amount: value, currency } };
+  }
+
+  const leadIdParam = Type.String({ description: "Lead ID (UUID)" });
+
+  registerTool({
+    name: "pipedrive_search_leads",
+    description: "Search leads by title, notes, or linked person/organization name",
     parameters: Type.Object({
-      term: Type.String({ description: "Search term (name, email, phone)" }),
+      term: Type.String({ description: "Search term" }),
+      exact_match: Type.Optional(Type.Boolean({ description: "Only return exact matches" })),
+      person_id: Type.Optional(Type.Number({ description: "Only leads linked to this person ID" })),
+      organization_id: Type.Optional(Type.Number({ description: "Only leads linked to this organization ID" })),
       limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const { term, limit } = params as { term: string; limit?: number };
+      const { term, exact_match, person_id, organization_id, limit } = params as {
+        term: string;
+        exact_match?: boolean;
+        person_id?: number;
+        organization_id?: number;
+        limit?: number;
+      };
       const query = new URLSearchParams({ term });
+      if (exact_match !== undefined) query.set("exact_match", String(exact_match));
+      if (person_id) query.set("person_id", String(person_id));
+      if (organization_id) query.set("organization_id", String(organization_id));
       if (limit) query.set("limit", String(limit));
-      const data = await pipedriveRequest(`/persons/search?${query}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveRequest(`/leads/search?${query}`);
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_get_person",
-    description: "Get details of a specific person by ID",
+  registerTool({
+    name: "pipedrive_get_lead",
+    description: "Get details of a specific lead by ID",
     parameters: Type.Object({
-      id: Type.Number({ description: "Person ID" }),
+      id: leadIdParam,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const { id } = params as { id: number };
-      const data = await pipedriveRequest(`/persons/${id}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { id } = params as { id: string };
+      const data = await pipedriveRequest(`/leads/${id}`, { useV1: true });
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_list_persons",
-    description: "List all persons with optional filters",
+  registerTool({
+    name: "pipedrive_list_leads",
+    description: "List leads in the Leads Inbox with optional filters",
     parameters: Type.Object({
+      archived_status: Type.Optional(
+        stringEnum(["archived", "not_archived", "all"], { description: "Archived leads, active ones or both (default not_archived)" })
+      ),
       owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
-      org_id: Type.Optional(Type.Number({ description: "Filter by organization ID" })),
-      limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
-      cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
-      sort_by: Type.Optional(Type.String({ description: "Sort by: id, add_time, update_time, name" })),
-      sort_direction: Type.Optional(Type.String({ description: "Sort direction: asc, desc" })),
+      person_id: Type.Optional(Type.Number({ description: "Filter by person ID" })),
+      organization_id: Type.Optional(Type.Number({ description: "Filter by organization ID" })),
+      filter_id: Type.Optional(Type.Number({ description: "Apply a saved filter" })),
+      sort: Type.Optional(Type.String({ description: 'Sort, e.g. "add_time DESC"' })),
+      limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      start: Type.Optional(Type.Number({ description: "Pagination offset" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const query = new URLSearchParams();
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) query.set(key, String(value));
-      }
-      const data = await pipedriveRequest(`/persons?${query}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveList("/leads", params, { useV1: true });
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_create_person",
-    description: "Create a new person/contact",
+  registerTool({
+    name: "pipedrive_create_lead",
+    description: "Create a new lead in the Leads Inbox. A lead must be linked to a person or an organization.",
     parameters: Type.Object({
-      name: Type.String({ description: "Person name (required)" }),
-      email: Type.Optional(Type.String({ description: "Email address" })),
-      phone: Type.Optional(Type.String({ description: "Phone number" })),
-      org_id: Type.Optional(Type.Number({ description: "Associated organization ID" })),
+      title: Type.String({ description: "Lead title (required)" }),
+      person_id: Type.Optional(Type.Number({ description: "Linked person ID" })),
+      organization_id: Type.Optional(Type.Number({ description: "Linked organization ID" })),
       owner_id: Type.Optional(Type.Number({ description: "Owner user ID" })),
+      label_ids: Type.Optional(Type.Array(Type.String(), { description: "Lead label IDs (from pipedrive_list_lead_labels)" })),
+      value: Type.Optional(Type.Number({ description: "Potential value" })),
+      currency: Type.Optional(Type.String({ description: "Currency code for value (e.g., USD, EUR)" })),
+      expected_close_date: Type.Optional(dateParam("Expected close date (YYYY-MM-DD)")),
     }),
     async execute(_id, params) {
-      // v2 expects email/phone as arrays of objects
-      const { email, phone, ...rest } = params as { email?: string; phone?: string } & Record<string, unknown>;
-      const body: Record<string, unknown> = { ...rest };
-      if (email) body.emails = [{ value: email, primary: true, label: "work" }];
-      if (phone) body.phones = [{ value: phone, primary: true, label: "work" }];
-
-      const data = await pipedriveRequest("/persons", {
+      const data = await pipedriveRequest("/leads", {
         method: "POST",
-        body: JSON.stringify(body),
+        body: JSON.stringify(leadBody(params)),
+        useV1: true,
       });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_update_person",
-    description: "Update an existing person/contact",
+  registerTool({
+    name: "pipedrive_update_lead",
+    description: "Update an existing lead",
     parameters: Type.Object({
-      id: Type.Number({ description: "Person ID to update (required)" }),
-      name: Type.Optional(Type.String({ description: "New name" })),
-      email: Type.Optional(Type.String({ description: "New email" })),
-      phone: Type.Optional(Type.String({ description: "New phone" })),
-      org_id: Type.Optional(Type.Number({ description: "New organization ID" })),
+      id: leadIdParam,
+      title: Type.Optional(Type.String({ description: "New title" })),
+      person_id: Type.Optional(Type.Number({ description: "New linked person ID" })),
+      organization_id: Type.Optional(Type.Number({ description: "New linked organization ID" })),
       owner_id: Type.Optional(Type.Number({ description: "New owner user ID" })),
+      label_ids: Type.Optional(Type.Array(Type.String(), { description: "Replace lead label IDs" })),
+      value: Type.Optional(Type.Number({ description: "New potential value" })),
+      currency: Type.Optional(Type.String({ description: "Currency code for value" })),
+      expected_close_date: Type.Optional(dateParam("Expected close date (YYYY-MM-DD)")),
+      was_seen: Type.Optional(Type.Boolean({ description: "Mark the lead as seen" })),
     }),
     async execute(_id, params) {
-      const { id, email, phone, ...rest } = params as { id: number; email?: string; phone?: string } & Record<string, unknown>;
-      const body: Record<string, unknown> = { ...rest };
-      if (email) body.emails = [{ value: email, primary: true, label: "work" }];
-      if (phone) body.phones = [{ value: phone, primary: true, label: "work" }];
+      const { id, ...updateParams } = params as { id: string } & Record<string, unknown>;
+      const data = await pipedriveRequest(`/leads/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(leadBody(updateParams)),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
 
-      const data = await pipedriveRequest(`/persons/${id}`, {
+  registerTool({
+    name: "pipedrive_archive_lead",
+    description: "Archive a lead (moves it out of the Leads Inbox), or unarchive it",
+    parameters: Type.Object({
+      id: leadIdParam,
+      unarchive: Type.Optional(Type.Boolean({ description: "Restore an archived lead instead" })),
+    }),
+    async execute(_id, params) {
+      const { id, unarchive } = params as { id: string; unarchive?: boolean };
+      const data = await pipedriveRequest(`/leads/${id}`, {
         method: "PATCH",
+        body: JSON.stringify({ is_archived: !unarchive }),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_convert_lead_to_deal",
+    description:
+      "Convert a lead into a deal in the chosen pipeline/stage. Waits for the conversion to finish and returns the new deal ID.",
+    parameters: Type.Object({
+      id: leadIdParam,
+      pipeline_id: Type.Optional(Type.Number({ description: "Pipeline for the new deal (default pipeline if omitted)" })),
+      stage_id: Type.Optional(Type.Number({ description: "Stage for the new deal (first stage if omitted)" })),
+    }),
+    async execute(_id, params) {
+      const { id, ...body } = params as { id: string; pipeline_id?: number; stage_id?: number };
+      await checkDealParams(body);
+      const started = await pipedriveRequest(`/leads/${id}/convert/deal`, {
+        method: "POST",
         body: JSON.stringify(body),
       });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const conversionId = started.data?.conversion_id;
+      if (!conversionId) return toolResult(started); // dry run or unexpected response
+
+      // Conversion runs as a background job on Pipedrive's side
+      for (let attempt = 0; attempt < LEAD_CONVERSION_POLLS; attempt++) {
+        const status = await pipedriveRequest(`/leads/${id}/convert/status/${conversionId}`);
+        const state = status.data?.status;
+        if (state === "completed") {
+          return toolResult({ data: { lead_id: id, deal_id: status.data.deal_id, conversion_id: conversionId } });
+        }
+        if (state === "failed" || state === "rejected") {
+          throw new Error(`Lead conversion ${state}: ${JSON.stringify(status.data)}`);
+        }
+        await sleep(1000);
+      }
+      return toolResult({
+        data: { lead_id: id, conversion_id: conversionId, status: "running" },
+        additional_data: { message: "Conversion is still running; check the lead or search deals shortly." },
+      });
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_delete_person",
-    description: "Delete a person (marks as deleted, 30-day retention)",
+  // ============ LEAD LABELS & SOURCES (v1) ============
+
+  registerTool({
+    name: "pipedrive_list_lead_labels",
+    description: "List all lead labels with their IDs and colors",
     parameters: Type.Object({
-      id: Type.Number({ description: "Person ID to delete" }),
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const { id } = params as { id: number };
-      const data = await pipedriveRequest(`/persons/${id}`, { method: "DELETE" });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveRequest("/leadLabels", { useV1: true });
+      return toolResult(data, params);
     },
   });
 
-  // ============ ORGANIZATIONS (v2) ============
+  registerTool({
+    name: "pipedrive_create_lead_label",
+    description: "Create a lead label",
+    parameters: Type.Object({
+      name: Type.String({ description: "Label name (required)" }),
+      color: stringEnum(LEAD_LABEL_COLORS, { description: "Color (required)" }),
+    }),
+    async execute(_id, params) {
+      const data = await pipedriveRequest("/leadLabels", {
+        method: "POST",
+        body: JSON.stringify(params),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
 
-  api.registerTool({
-    name: "pipedrive_search_organizations",
-    description: "Search for organizations by name, address, or notes",
+  registerTool({
+    name: "pipedrive_update_lead_label",
+    description: "Rename or recolor a lead label",
     parameters: Type.Object({
-      term: Type.String({ description: "Search term (organization name)" }),
-      limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      id: Type.String({ description: "Lead label ID (UUID)" }),
+      name: Type.Optional(Type.String({ description: "New name" })),
+      color: Type.Optional(stringEnum(LEAD_LABEL_COLORS, { description: "New color" })),
     }),
     async execute(_id, params) {
-      const { term, limit } = params as { term: string; limit?: number };
-      const query = new URLSearchParams({ term });
-      if (limit) query.set("limit", String(limit));
-      const data = await pipedriveRequest(`/organizations/search?${query}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { id, ...updateParams } = params as { id: string } & Record<string, unknown>;
+      const data = await pipedriveRequest(`/leadLabels/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(updateParams),
+        useV1: true,
+      });
+      return toolResult(data);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_get_organization",
-    description: "Get details of a specific organization by ID",
+  registerTool({
+    name: "pipedrive_delete_lead_label",
+    description: "Delete a lead label",
+    destructive: true,
     parameters: Type.Object({
-      id: Type.Number({ description: "Organization ID" }),
+      id: Type.String({ description: "Lead label ID (UUID) to delete" }),
     }),
     async execute(_id, params) {
-      const { id } = params as { id: number };
-      const data = await pipedriveRequest(`/organizations/${id}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { id } = params as { id: string };
+      const data = await pipedriveRequest(`/leadLabels/${id}`, { method: "DELETE", useV1: true });
+      return toolResult(data);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_list_organizations",
-    description: "List all organizations with optional filters",
+  registerTool({
+    name: "pipedrive_list_lead_sources",
+    description: "List lead sources (read-only in Pipedrive; sources are set automatically)",
     parameters: Type.Object({
-      owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
-      limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
-      cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
-      sort_by: Type.Optional(Type.String({ description: "Sort by: id, add_time, update_time, name" })),
-      sort_direction: Type.Optional(Type.String({ description: "Sort direction: asc, desc" })),
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const query = new URLSearchParams();
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) query.set(key, String(value));
-      }
-      const data = await pipedriveRequest(`/organizations?${query}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveRequest("/leadSources", { useV1: true });
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_create_organization",
-    description: "Create a new organization",
+  // ============ FILES (v1 - not available in v2) ============
+
+  const FILE_ENTITY_PATHS = { deal: "deals", person: "persons", organization: "organizations" } as const;
+
+  registerTool({
+    name: "pipedrive_list_files",
+    description: "List files attached to a deal, person or organization, or all files when no entity is given",
     parameters: Type.Object({
-      name: Type.String({ description: "Organization name (required)" }),
-      address: Type.Optional(Type.String({ description: "Address" })),
-      owner_id: Type.Optional(Type.Number({ description: "Owner user ID" })),
+      entity: Type.Optional(
+        Type.Union([Type.Literal("deal"), Type.Literal("person"), Type.Literal("organization")], {
+          description: "Entity type: deal, person, organization",
+        })
+      ),
+      id: Type.Optional(Type.Number({ description: "Entity ID (required with entity)" })),
+      sort: Type.Optional(Type.String({ description: 'Sort, e.g. "add_time DESC"' })),
+      limit: Type.Optional(Type.Number({ description: "Number of results" })),
+      start: Type.Optional(Type.Number({ description: "Pagination offset" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const data = await pipedriveRequest("/organizations", {
-        method: "POST",
-        body: JSON.stringify(params),
-      });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { entity, id, ...listParams } = params as { entity?: keyof typeof FILE_ENTITY_PATHS; id?: number } &
+        Record<string, unknown>;
+      if (entity && id === undefined) throw new Error(`id is required when entity is set`);
+      const path = entity ? `/${FILE_ENTITY_PATHS[entity]}/${id}/files` : "/files";
+      const data = await pipedriveList(path, listParams, { useV1: true });
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_update_organization",
-    description: "Update an existing organization",
+  registerTool({
+    name: "pipedrive_download_file",
+    description:
+      "Download an attached file to a local path, or return its text content (PDF and plain-text files) for reading",
     parameters: Type.Object({
-      id: Type.Number({ description: "Organization ID to update (required)" }),
-      name: Type.Optional(Type.String({ description: "New name" })),
-      address: Type.Optional(Type.String({ description: "New address" })),
-      owner_id: Type.Optional(Type.Number({ description: "New owner user ID" })),
+      id: Type.Number({ description: "File ID" }),
+      path: Type.Optional(
+        Type.String({ description: "Local file or directory to save to; a directory keeps the original file name" })
+      ),
+      extract_text: Type.Optional(Type.Boolean({ description: "Return the file's text instead of saving it" })),
+      max_chars: Type.Optional(Type.Number({ description: "Maximum characters of extracted text (default 20000)" })),
     }),
     async execute(_id, params) {
-      const { id, ...updateParams } = params as { id: number } & Record<string, unknown>;
-      const data = await pipedriveRequest(`/organizations/${id}`, {
-        method: "PATCH",
-        body: JSON.stringify(updateParams),
-      });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { id, path, extract_text, max_chars = 20_000 } = params as {
+        id: number;
+        path?: string;
+        extract_text?: boolean;
+        max_chars?: number;
+      };
+      if (!path && !extract_text) throw new Error("Pass path to save the file, or extract_text: true to read it");
+
+      const meta = (await pipedriveRequest(`/files/${id}`, { useV1: true })).data as { name: string; file_type?: string };
+      const content: Buffer = await pipedriveRequest(`/files/${id}/download`, { useV1: true, binary: true });
+      const result: Record<string, unknown> = { id, name: meta.name, bytes: content.length };
+
+      if (path) {
+        let target = expandPath(path);
+        if (path.endsWith("/") || (await stat(target).then((s) => s.isDirectory(), () => false))) {
+          target = join(target, basename(meta.name));
+        }
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, content);
+        result.path = target;
+      }
+
+      if (extract_text) {
+        const type = (meta.file_type || meta.name.split(".").pop() || "").toLowerCase();
+        let text: string;
+        if (type === "pdf") text = extractPdfText(content);
+        else if (TEXT_FILE_TYPES.has(type)) text = content.toString("utf8");
+        else throw new Error(`Cannot extract text from .${type} files; pass path to save the file instead`);
+        result.truncated = text.length > max_chars;
+        result.text = text.slice(0, max_chars) || "(no extractable text; the PDF may be scanned images)";
+      }
+      return toolResult({ data: result });
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_delete_organization",
-    description: "Delete an organization (marks as deleted, 30-day retention)",
+  registerTool({
+    name: "pipedrive_upload_file",
+    description: "Upload a local file and attach it to a deal, person, organization, activity or lead",
     parameters: Type.Object({
-      id: Type.Number({ description: "Organization ID to delete" }),
+      path: Type.String({ description: "Local file path (required)" }),
+      name: Type.Optional(Type.String({ description: "File name shown in Pipedrive (default: the local file name)" })),
+      deal_id: Type.Optional(Type.Number({ description: "Attach to deal ID" })),
+      person_id: Type.Optional(Type.Number({ description: "Attach to person ID" })),
+      org_id: Type.Optional(Type.Number({ description: "Attach to organization ID" })),
+      activity_id: Type.Optional(Type.Number({ description: "Attach to activity ID" })),
+      lead_id: Type.Optional(Type.String({ description: "Attach to lead ID (UUID)" })),
     }),
     async execute(_id, params) {
-      const { id } = params as { id: number };
-      const data = await pipedriveRequest(`/organizations/${id}`, { method: "DELETE" });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { path, name, ...links } = params as { path: string; name?: string } & Record<string, unknown>;
+      if (!Object.values(links).some((value) => value !== undefined)) {
+        throw new Error("Pass at least one of deal_id, person_id, org_id, activity_id, lead_id");
+      }
+      const localPath = expandPath(path);
+      const form = new FormData();
+      form.append("file", new Blob([await readFile(localPath)]), name || basename(localPath));
+      for (const [key, value] of Object.entries(links)) {
+        if (value !== undefined) form.append(key, String(value));
+      }
+      const data = await pipedriveRequest("/files", { method: "POST", body: form, useV1: true });
+      return toolResult(data);
     },
   });
 
+  // ============ SCHEDULING HELPERS ============
+
+  type ActivitySeries = {
+    id: string;
+    account: string;
+    subject: string;
+    owner_id: number;
+    timezone: string;
+    time?: string;
+    recurrence: Recurrence;
+    created_at: string;
+    activities: { id: number; date: string }[];
+  };
+
+  // A local date and time, and what Pipedrive stores for it (due_date/due_time are UTC)
+  type Occurrence = { date: string; time?: string; start?: number; end?: number; due_date: string; due_time?: string };
+
+  const workdays = cfg.scheduling?.workdays ?? DEFAULT_WORKDAYS;
+  const workHours = cfg.scheduling?.workHours ?? DEFAULT_WORK_HOURS;
+  const seriesPath = expandPath(cfg.scheduling?.seriesPath || "~/.openclaw/pipedrive-activity-series.json");
+  let seriesWrites = Promise.resolve();
+
+  async function loadSeries(): Promise<Record<string, ActivitySeries>> {
+    try {
+      return JSON.parse(await readFile(seriesPath, "utf8"));
+    } catch {
+      return {};
+    }
+  }
+
+  // Read-modify-write on one chain, so concurrent calls don't drop each other's changes
+  function updateSeries(change: (all: Record<string, ActivitySeries>) => void) {
+    const write = seriesWrites.then(async () => {
+      const all = await loadSeries();
+      change(all);
+      await mkdir(dirname(seriesPath), { recursive: true });
+      await writeFile(seriesPath, JSON.stringify(all, null, 2));
+    });
+    seriesWrites = write.catch(() => {});
+    return write;
+  }
+
+  async function getSeries(id: string) {
+    await seriesWrites;
+    const series = (await loadSeries())[id];
+    if (!series || series.account !== currentClient().name) {
+      throw new Error(`Unknown activity series "${id}". See pipedrive_list_activity_series`);
+    }
+    return series;
+  }
+
+  // Times are read in the owner's timezone from their Pipedrive profile unless the call names one
+  async function scheduleOwner(ownerId: number | undefined, timezone?: string) {
+    const user = (await pipedriveRequest(ownerId ? `/users/${ownerId}` : "/users/me", { useV1: true })).data ?? {};
+    const zone = timezone || user.timezone_name || cfg.scheduling?.timezone || "UTC";
+    assertTimezone(zone);
+    return { owner_id: (ownerId ?? user.id) as number, timezone: zone };
+  }
+
+  function occurrence(date: string, time: string | undefined, minutes: number, timezone: string): Occurrence {
+    if (!time) return { date, due_date: date }; // all-day: Pipedrive keeps the date as is
+    const start = zonedToUtc(date, time, timezone);
+    const utc = new Date(start).toISOString();
+    return { date, time, start, end: start + minutes * 60_000, due_date: utc.slice(0, 10), due_time: utc.slice(11, 16) };
+  }
+
+  function parseTime(text: string) {
+    const time = parseTimeOfDay(text);
+    if (!time) throw new Error(`Invalid time "${text}". Use HH:MM or e.g. 3pm`);
+    return time;
+  }
+
+  function localSlot([start, end]: [number, number], timezone: string) {
+    const from = zonedDateTime(start, timezone);
+    return { date: from.date, weekday: WEEKDAY_NAMES[from.weekday], start: from.time, end: zonedDateTime(end, timezone).time };
+  }
+
+  // The owner's open timed activities between two local dates, as UTC intervals
+  async function busyTimes(ownerId: number, from: string, to: string, ignore: number[] = []) {
+    // Due dates are stored in UTC; a day of margin on each side covers every timezone
+    const query = { user_id: ownerId, start_date: shiftDate(from, -1), end_date: shiftDate(to, 1), done: 0, fetch_all: true, max_items: 5000 };
+    const { data } = await pipedriveList("/activities", query, { useV1: true });
+    return (data as Record<string, any>[])
+      .filter((activity) => activity.due_time && !ignore.includes(activity.id))
+      .map((activity) => {
+        const start = Date.parse(`${activity.due_date}T${activity.due_time}:00Z`);
+        const minutes = activity.duration ? parseDuration(activity.duration) : 0;
+        return { activity, start, end: start + (minutes || DEFAULT_ACTIVITY_MINUTES) * 60_000 };
+      });
+  }
+
+  // Free slots within working hours on the next `days` workdays from a local date
+  async function freeSlots(ownerId: number, timezone: string, from: string, days: number, minutes: number, limit: number) {
+    const [dayStart, dayEnd] = workHours.split("-").map((time) => parseTime(time));
+    const dates: string[] = [];
+    for (let date = from; dates.length < days && dates.length < 60; date = shiftDate(date, 1)) {
+      if (workdays.includes(weekdayOf(date))) dates.push(date);
+    }
+    if (!dates.length) return [];
+    const busy = await busyTimes(ownerId, dates[0], dates[dates.length - 1]);
+    const now = Date.now();
+    const windows = dates
+      .map((date): [number, number] => [Math.max(zonedToUtc(date, dayStart, timezone), now), zonedToUtc(date, dayEnd, timezone)])
+      .filter(([start, end]) => start < end);
+    const intervals = busy.map(({ start, end }): [number, number] => [start, end]);
+    return findFreeSlots(intervals, windows, minutes * 60_000, limit).map((slot) => localSlot(slot, timezone));
+  }
+
+  // Returns a "nothing created" result listing overlaps and free slots, or undefined when the times are free
+  async function scheduleConflicts(
+    owner: { owner_id: number; timezone: string },
+    occurrences: Occurrence[],
+    minutes: number,
+    ignore: number[] = []
+  ) {
+    const timed = occurrences.filter((item) => item.start !== undefined);
+    if (!timed.length) return undefined;
+    const busy = await busyTimes(owner.owner_id, timed[0].date, timed[timed.length - 1].date, ignore);
+    const conflicts = timed.flatMap((item) =>
+      busy
+        .filter(({ start, end }) => start < item.end! && end > item.start!)
+        .map(({ activity, start, end }) => ({
+          requested: `${item.date} ${item.time}`,
+          activity_id: activity.id,
+          subject: activity.subject,
+          ...localSlot([start, end], owner.timezone),
+        }))
+    );
+    if (!conflicts.length) return undefined;
+    const suggestions = await freeSlots(owner.owner_id, owner.timezone, timed[0].date, 3, minutes, 5);
+    return toolResult({
+      created: false,
+      message: `${conflicts.length} overlap(s) with the owner's existing activities. Nothing was changed. Pick a free slot, or call again with check_conflicts: false.`,
+      timezone: owner.timezone,
+      conflicts,
+      free_slots: suggestions,
+    });
+  }
+
   // ============ ACTIVITIES (v2) ============
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_list_activities",
     description: "List activities (tasks, calls, meetings) with optional filters",
     parameters: Type.Object({
-      deal_id: Type.Optional(Type.Number({ description: "Filter by deal ID" })),
-      person_id: Type.Optional(Type.Number({ description: "Filter by person ID" })),
-      org_id: Type.Optional(Type.Number({ description: "Filter by organization ID" })),
-      owner_id: Type.Optional(Type.Number({ description: "Filter by owner user ID" })),
-      done: Type.Optional(Type.Boolean({ description: "Filter by completion: true = done, false = not done" })),
-      type: Type.Optional(Type.String({ description: "Filter by type: call, meeting, task, deadline, email, lunch" })),
+      ...listFilterParams.activity,
       limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
       cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
-      sort_by: Type.Optional(Type.String({ description: "Sort by: id, add_time, update_time, due_date" })),
-      sort_direction: Type.Optional(Type.String({ description: "Sort direction: asc, desc" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const query = new URLSearchParams();
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) query.set(key, String(value));
-      }
-      const data = await pipedriveRequest(`/activities?${query}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await listWhere("/activities", "activity", params);
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_get_activity",
     description: "Get details of a specific activity by ID",
     parameters: Type.Object({
       id: Type.Number({ description: "Activity ID" }),
+      ...outputParams,
     }),
     async execute(_id, params) {
       const { id } = params as { id: number };
       const data = await pipedriveRequest(`/activities/${id}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  const recurrenceParam = Type.Object(
+    {
+      every: Type.Union([Type.Literal("day"), Type.Literal("weekday"), Type.Literal("week"), Type.Literal("month")], {
+        description: "day, weekday (workdays only), week or month",
+      }),
+      interval: Type.Optional(Type.Number({ description: "Every N days/weekdays/weeks/months (default 1)" })),
+      count: Type.Optional(Type.Number({ description: `Number of occurrences (max ${MAX_SERIES_OCCURRENCES})` })),
+      until: Type.Optional(dateParam("Last possible date, YYYY-MM-DD")),
+    },
+    { description: "Create a series instead of a single activity; needs count or until" }
+  );
+
+  registerTool({
     name: "pipedrive_create_activity",
-    description: "Create a new activity (task, call, meeting, etc.)",
+    description:
+      "Create a new activity (task, call, meeting, etc.). Dates like \"next tuesday 3pm\" are read in the owner's timezone; overlaps with the owner's activities are reported instead of created. With recurrence, creates a series",
     parameters: Type.Object({
       subject: Type.String({ description: "Activity subject/title (required)" }),
       type: Type.String({ description: "Activity type: call, meeting, task, deadline, email, lunch (required)" }),
-      due_date: Type.Optional(Type.String({ description: "Due date in YYYY-MM-DD format" })),
-      due_time: Type.Optional(Type.String({ description: "Due time in HH:MM format" })),
-      duration: Type.Optional(Type.String({ description: "Duration in HH:MM format" })),
+      due_date: Type.Optional(
+        Type.String({
+          description:
+            'Due date: YYYY-MM-DD or e.g. "tomorrow", "next tuesday 3pm", "in 2 business days", "in 3 hours" (owner\'s timezone)',
+        })
+      ),
+      due_time: Type.Optional(Type.String({ description: "Due time, HH:MM or e.g. 3pm, in the owner's timezone" })),
+      duration: Type.Optional(Type.String({ description: "Duration: HH:MM, minutes, or e.g. 1h30m" })),
+      timezone: Type.Optional(
+        Type.String({ description: "IANA timezone for due_date/due_time (default: the owner's Pipedrive profile timezone)" })
+      ),
+      check_conflicts: Type.Optional(
+        Type.Boolean({ description: "Report overlaps with the owner's open activities instead of creating (default true)" })
+      ),
+      recurrence: Type.Optional(recurrenceParam),
       deal_id: Type.Optional(Type.Number({ description: "Associated deal ID" })),
       person_id: Type.Optional(Type.Number({ description: "Associated person ID" })),
       org_id: Type.Optional(Type.Number({ description: "Associated organization ID" })),
@@ -431,120 +4758,632 @@ export default function register(api: { pluginConfig: unknown; registerTool: (..
       owner_id: Type.Optional(Type.Number({ description: "Owner user ID" })),
     }),
     async execute(_id, params) {
-      const data = await pipedriveRequest("/activities", {
-        method: "POST",
-        body: JSON.stringify(params),
-      });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { due_date, due_time, duration, timezone, check_conflicts = true, recurrence, ...rest } = params as {
+        subject: string;
+        due_date?: string;
+        due_time?: string;
+        duration?: string;
+        timezone?: string;
+        check_conflicts?: boolean;
+        recurrence?: Recurrence;
+        owner_id?: number;
+      } & Record<string, unknown>;
+      const minutes = duration ? parseDuration(duration) : undefined;
+      const body = { ...rest, duration: minutes !== undefined ? formatDuration(minutes) : undefined };
+      if (!due_date && !due_time && !recurrence) {
+        const data = await pipedriveRequest("/activities", { method: "POST", body: JSON.stringify(body) });
+        return toolResult(data);
+      }
+
+      const owner = await scheduleOwner(rest.owner_id, timezone);
+      const when = parseWhen(due_date ?? "today", owner.timezone, workdays);
+      const time = due_time ? parseTime(due_time) : when.time;
+      const dates = recurrence ? expandRecurrence(when.date, recurrence, workdays) : [when.date];
+      const occurrences = dates.map((date) => occurrence(date, time, minutes ?? DEFAULT_ACTIVITY_MINUTES, owner.timezone));
+      if (check_conflicts) {
+        const conflicts = await scheduleConflicts(owner, occurrences, minutes ?? DEFAULT_ACTIVITY_MINUTES);
+        if (conflicts) return conflicts;
+      }
+
+      if (!recurrence) {
+        const [only] = occurrences;
+        const data = await pipedriveRequest("/activities", {
+          method: "POST",
+          body: JSON.stringify({ ...body, due_date: only.due_date, due_time: only.due_time }),
+        });
+        const scheduled = { date: only.date, time: only.time, timezone: owner.timezone };
+        return toolResult({ ...data, additional_data: { ...data.additional_data, scheduled } });
+      }
+
+      const seriesId = randomUUID().slice(0, 8);
+      const results: { date: string; time?: string; status: "created" | "failed"; activity_id?: number; error?: string }[] = [];
+      for (const item of occurrences) {
+        try {
+          const created = await pipedriveRequest("/activities", {
+            method: "POST",
+            body: JSON.stringify({ ...body, due_date: item.due_date, due_time: item.due_time }),
+          });
+          results.push({ date: item.date, time: item.time, status: "created", activity_id: created.data?.id });
+        } catch (err) {
+          results.push({ date: item.date, time: item.time, status: "failed", error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+
+      const activities = results.filter((row) => row.activity_id).map((row) => ({ id: row.activity_id!, date: row.date }));
+      if (activities.length) {
+        await updateSeries((all) => {
+          all[seriesId] = {
+            id: seriesId,
+            account: currentClient().name,
+            subject: rest.subject,
+            owner_id: owner.owner_id,
+            timezone: owner.timezone,
+            time,
+            recurrence,
+            created_at: new Date().toISOString(),
+            activities,
+          };
+        });
+      }
+      return toolResult({
+        series_id: activities.length ? seriesId : undefined,
+        timezone: owner.timezone,
+        created: activities.length,
+        failed: results.filter((row) => row.status === "failed").length,
+        occurrences: results,
+      });
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_update_activity",
+    description: "Update an existing activity. New dates and times are read in the owner's timezone",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Activity ID to update (required)" }),
+      subject: Type.Optional(Type.String({ description: "New subject" })),
+      type: Type.Optional(Type.String({ description: "New type" })),
+      due_date: Type.Optional(
+        Type.String({ description: 'New due date: YYYY-MM-DD or e.g. "next tuesday 3pm" (keeps the current time if none is given)' })
+      ),
+      due_time: Type.Optional(Type.String({ description: "New due time, HH:MM or e.g. 3pm, in the owner's timezone" })),
+      duration: Type.Optional(Type.String({ description: "New duration: HH:MM, minutes, or e.g. 1h30m" })),
+      timezone: Type.Optional(
+        Type.String({ description: "IANA timezone for due_date/due_time (default: the owner's Pipedrive profile timezone)" })
+      ),
+      check_conflicts: Type.Optional(
+        Type.Boolean({ description: "When rescheduling, report overlaps with the owner's open activities instead of updating (default true)" })
+      ),
+      done: Type.Optional(Type.Boolean({ description: "Mark as done: true = done, false = not done" })),
+      note: Type.Optional(Type.String({ description: "New notes" })),
+      owner_id: Type.Optional(Type.Number({ description: "New owner user ID" })),
+    }),
+    async execute(_id, params) {
+      const { id, due_date, due_time, duration, timezone, check_conflicts = true, ...updateParams } = params as {
+        id: number;
+        due_date?: string;
+        due_time?: string;
+        duration?: string;
+        timezone?: string;
+        check_conflicts?: boolean;
+        owner_id?: number;
+      } & Record<string, unknown>;
+      const body: Record<string, unknown> = { ...updateParams };
+      if (duration) body.duration = formatDuration(parseDuration(duration));
+
+      if (due_date || due_time) {
+        const current = (await pipedriveRequest(`/activities/${id}`)).data ?? {};
+        const owner = await scheduleOwner(updateParams.owner_id ?? current.owner_id, timezone);
+        const local = current.due_time
+          ? zonedDateTime(Date.parse(`${current.due_date}T${current.due_time}:00Z`), owner.timezone)
+          : { date: current.due_date as string | undefined, time: undefined };
+        const when = due_date ? parseWhen(due_date, owner.timezone, workdays) : { date: local.date, time: undefined };
+        const time = due_time ? parseTime(due_time) : when.time ?? local.time;
+        const date = when.date ?? parseWhen("today", owner.timezone).date;
+        const minutes = duration ? parseDuration(duration) : current.duration ? parseDuration(current.duration) : 0;
+        const item = occurrence(date, time, minutes || DEFAULT_ACTIVITY_MINUTES, owner.timezone);
+        if (check_conflicts) {
+          const conflicts = await scheduleConflicts(owner, [item], minutes || DEFAULT_ACTIVITY_MINUTES, [id]);
+          if (conflicts) return conflicts;
+        }
+        body.due_date = item.due_date;
+        if (item.due_time) body.due_time = item.due_time;
+      }
+
+      const data = await pipedriveRequest(`/activities/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_delete_activity",
+    description: "Delete an activity (marks as deleted, 30-day retention)",
+    destructive: true,
+    parameters: Type.Object({
+      id: Type.Number({ description: "Activity ID to delete" }),
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await pipedriveRequest(`/activities/${id}`, { method: "DELETE" });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_find_free_slots",
+    description: "Suggest free time slots in a user's calendar within working hours, based on their open activities",
+    parameters: Type.Object({
+      owner_id: Type.Optional(Type.Number({ description: "User ID (default: the current user)" })),
+      from: Type.Optional(Type.String({ description: 'First day to look at: YYYY-MM-DD or e.g. "tomorrow", "next monday" (default today)' })),
+      days: Type.Optional(Type.Number({ description: "Number of workdays to look at (default 5)" })),
+      duration: Type.Optional(Type.String({ description: "Slot length: HH:MM, minutes, or e.g. 1h (default 30 minutes)" })),
+      timezone: Type.Optional(Type.String({ description: "IANA timezone (default: the user's Pipedrive profile timezone)" })),
+      limit: Type.Optional(Type.Number({ description: "Maximum slots to suggest (default 10)" })),
+    }),
+    async execute(_id, params) {
+      const { owner_id, from, days = 5, duration, timezone, limit = 10 } = params as {
+        owner_id?: number;
+        from?: string;
+        days?: number;
+        duration?: string;
+        timezone?: string;
+        limit?: number;
+      };
+      const owner = await scheduleOwner(owner_id, timezone);
+      const minutes = duration ? parseDuration(duration) : DEFAULT_ACTIVITY_MINUTES;
+      const start = parseWhen(from ?? "today", owner.timezone, workdays).date;
+      const slots = await freeSlots(owner.owner_id, owner.timezone, start, days, minutes, limit);
+      return toolResult({ ...owner, work_hours: workHours, duration: formatDuration(minutes), slots });
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_update_activity",
-    description: "Update an existing activity",
+  registerTool({
+    name: "pipedrive_list_activity_series",
+    description: "List recurring activity series created by this plugin, with their upcoming occurrences",
+    parameters: Type.Object({}),
+    async execute() {
+      await seriesWrites;
+      const account = currentClient().name;
+      const series = Object.values(await loadSeries())
+        .filter((item) => item.account === account)
+        .map(({ account: _account, activities, ...item }) => {
+          const today = zonedDateTime(Date.now(), item.timezone).date;
+          const upcoming = activities.filter((activity) => activity.date >= today);
+          return { ...item, occurrences: activities.length, upcoming: upcoming.length, next: upcoming[0] };
+        });
+      return toolResult(series);
+    },
+  });
+
+  // Occurrences from a local date on (default today), in date order
+  async function seriesOccurrences(seriesId: string, from: string | undefined) {
+    const series = await getSeries(seriesId);
+    const start = parseWhen(from ?? "today", series.timezone, workdays).date;
+    const targets = series.activities.filter((activity) => activity.date >= start);
+    if (!targets.length) throw new Error(`Series ${seriesId} has no occurrences on or after ${start}`);
+    return { series, targets };
+  }
+
+  registerTool({
+    name: "pipedrive_update_activity_series",
+    description: "Update every occurrence of a recurring activity series from a date on (default: today)",
+    destructive: true,
     parameters: Type.Object({
-      id: Type.Number({ description: "Activity ID to update (required)" }),
+      series_id: Type.String({ description: "Series ID from pipedrive_create_activity or pipedrive_list_activity_series" }),
+      from: Type.Optional(Type.String({ description: 'Only occurrences on or after this date, e.g. "2025-03-01" or "next monday" (default today)' })),
       subject: Type.Optional(Type.String({ description: "New subject" })),
       type: Type.Optional(Type.String({ description: "New type" })),
-      due_date: Type.Optional(Type.String({ description: "New due date (YYYY-MM-DD)" })),
-      due_time: Type.Optional(Type.String({ description: "New due time (HH:MM)" })),
-      done: Type.Optional(Type.Boolean({ description: "Mark as done: true = done, false = not done" })),
+      due_time: Type.Optional(Type.String({ description: "New time, HH:MM or e.g. 3pm, in the series' timezone" })),
+      duration: Type.Optional(Type.String({ description: "New duration: HH:MM, minutes, or e.g. 1h30m" })),
       note: Type.Optional(Type.String({ description: "New notes" })),
       owner_id: Type.Optional(Type.Number({ description: "New owner user ID" })),
     }),
     async execute(_id, params) {
-      const { id, ...updateParams } = params as { id: number } & Record<string, unknown>;
-      const data = await pipedriveRequest(`/activities/${id}`, {
-        method: "PATCH",
-        body: JSON.stringify(updateParams),
+      const { series_id, from, due_time, duration, ...changes } = params as {
+        series_id: string;
+        from?: string;
+        due_time?: string;
+        duration?: string;
+        subject?: string;
+        owner_id?: number;
+      } & Record<string, unknown>;
+      const { series, targets } = await seriesOccurrences(series_id, from);
+      const time = due_time ? parseTime(due_time) : undefined;
+      const body: Record<string, unknown> = { ...changes };
+      if (duration) body.duration = formatDuration(parseDuration(duration));
+
+      const results: { activity_id: number; date: string; status: "updated" | "failed"; error?: string }[] = [];
+      for (const target of targets) {
+        try {
+          // Each occurrence converts separately, so the local time stays put across DST changes
+          const item = time ? occurrence(target.date, time, DEFAULT_ACTIVITY_MINUTES, series.timezone) : undefined;
+          await pipedriveRequest(`/activities/${target.id}`, {
+            method: "PATCH",
+            body: JSON.stringify(item ? { ...body, due_date: item.due_date, due_time: item.due_time } : body),
+          });
+          results.push({ activity_id: target.id, date: target.date, status: "updated" });
+        } catch (err) {
+          results.push({ activity_id: target.id, date: target.date, status: "failed", error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+
+      // Dry runs and confirmation previews sent nothing, so the stored series stays as it is
+      if (toolCalls.getStore()?.mode === "execute") {
+        await updateSeries((all) => {
+          const stored = all[series_id];
+          if (!stored) return;
+          if (changes.subject) stored.subject = changes.subject;
+          if (changes.owner_id) stored.owner_id = changes.owner_id;
+          if (time && !from) stored.time = time;
+        });
+      }
+      return toolResult({
+        series_id,
+        updated: results.filter((row) => row.status === "updated").length,
+        failed: results.filter((row) => row.status === "failed").length,
+        occurrences: results,
       });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
     },
   });
 
-  api.registerTool({
-    name: "pipedrive_delete_activity",
-    description: "Delete an activity (marks as deleted, 30-day retention)",
+  registerTool({
+    name: "pipedrive_delete_activity_series",
+    description: "Cancel a recurring activity series: delete its occurrences from a date on (default: today)",
+    destructive: true,
     parameters: Type.Object({
-      id: Type.Number({ description: "Activity ID to delete" }),
+      series_id: Type.String({ description: "Series ID from pipedrive_create_activity or pipedrive_list_activity_series" }),
+      from: Type.Optional(Type.String({ description: 'Only occurrences on or after this date, e.g. "2025-03-01" or "next monday" (default today)' })),
     }),
     async execute(_id, params) {
-      const { id } = params as { id: number };
-      const data = await pipedriveRequest(`/activities/${id}`, { method: "DELETE" });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { series_id, from } = params as { series_id: string; from?: string };
+      const { targets } = await seriesOccurrences(series_id, from);
+
+      const results: { activity_id: number; date: string; status: "deleted" | "failed"; error?: string }[] = [];
+      for (const target of targets) {
+        try {
+          await pipedriveRequest(`/activities/${target.id}`, { method: "DELETE" });
+          results.push({ activity_id: target.id, date: target.date, status: "deleted" });
+        } catch (err) {
+          results.push({ activity_id: target.id, date: target.date, status: "failed", error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+
+      const deleted = new Set(results.filter((row) => row.status === "deleted").map((row) => row.activity_id));
+      if (toolCalls.getStore()?.mode === "execute") {
+        await updateSeries((all) => {
+          const stored = all[series_id];
+          if (!stored) return;
+          stored.activities = stored.activities.filter((activity) => !deleted.has(activity.id));
+          if (!stored.activities.length) delete all[series_id];
+        });
+      }
+      return toolResult({ series_id, deleted: deleted.size, failed: results.length - deleted.size, occurrences: results });
     },
   });
 
   // ============ PIPELINES (v2) ============
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_list_pipelines",
     description: "List all pipelines",
     parameters: Type.Object({
       limit: Type.Optional(Type.Number({ description: "Number of results" })),
       cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const query = new URLSearchParams();
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) query.set(key, String(value));
-      }
-      const endpoint = query.toString() ? `/pipelines?${query}` : "/pipelines";
-      const data = await pipedriveRequest(endpoint);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveList("/pipelines", params);
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_get_pipeline",
     description: "Get details of a specific pipeline by ID",
     parameters: Type.Object({
       id: Type.Number({ description: "Pipeline ID" }),
+      ...outputParams,
     }),
     async execute(_id, params) {
       const { id } = params as { id: number };
       const data = await pipedriveRequest(`/pipelines/${id}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data, params);
     },
   });
 
   // ============ STAGES (v2) ============
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_list_stages",
     description: "List all stages, optionally filtered by pipeline",
     parameters: Type.Object({
       pipeline_id: Type.Optional(Type.Number({ description: "Filter by pipeline ID" })),
       limit: Type.Optional(Type.Number({ description: "Number of results" })),
       cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const query = new URLSearchParams();
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) query.set(key, String(value));
-      }
-      const endpoint = query.toString() ? `/stages?${query}` : "/stages";
-      const data = await pipedriveRequest(endpoint);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveList("/stages", params);
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_get_stage",
     description: "Get details of a specific stage by ID",
     parameters: Type.Object({
       id: Type.Number({ description: "Stage ID" }),
+      ...outputParams,
     }),
     async execute(_id, params) {
       const { id } = params as { id: number };
       const data = await pipedriveRequest(`/stages/${id}`);
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data, params);
+    },
+  });
+
+  // ============ REPORTS ============
+
+  registerTool({
+    name: "pipedrive_pipeline_report",
+    description:
+      "Pipeline health report computed from deals and stages: per-stage counts and values, stage-to-stage conversion, average days in stage, win rate, sales cycle and probability-weighted forecast by expected close month",
+    parameters: Type.Object({
+      pipeline_id: Type.Optional(Type.Number({ description: "Only this pipeline (default: all pipelines)" })),
+      owner_id: Type.Optional(Type.Number({ description: "Only deals owned by this user" })),
+      start_date: Type.Optional(dateParam("Only deals whose date_field is on or after this date (YYYY-MM-DD)")),
+      end_date: Type.Optional(dateParam("Only deals whose date_field is on or before this date (YYYY-MM-DD)")),
+      date_field: Type.Optional(
+        stringEnum(["add_time", "close_time", "expected_close_date"], {
+          description: "Date the range applies to (default add_time)",
+        })
+      ),
+      currency: Type.Optional(Type.String({ description: "Only deals in this currency; values are never converted" })),
+      max_deals: Type.Optional(Type.Number({ description: "Maximum deals to analyse (default 10000)" })),
+    }),
+    async execute(_id, params) {
+      const {
+        pipeline_id,
+        owner_id,
+        start_date,
+        end_date,
+        date_field = "add_time",
+        currency,
+        max_deals = 10_000,
+      } = params as {
+        pipeline_id?: number;
+        owner_id?: number;
+        start_date?: string;
+        end_date?: string;
+        date_field?: string;
+        currency?: string;
+        max_deals?: number;
+      };
+      if (!["add_time", "close_time", "expected_close_date"].includes(date_field)) {
+        throw new Error("date_field must be add_time, close_time or expected_close_date");
+      }
+
+      const [dealPage, stagePage, pipelinePage] = await Promise.all([
+        pipedriveList("/deals", { pipeline_id, owner_id, fetch_all: true, max_items: max_deals }),
+        pipedriveList("/stages", { pipeline_id, fetch_all: true, max_items: 1000 }),
+        pipedriveList("/pipelines", { fetch_all: true, max_items: 1000 }),
+      ]);
+
+      // Compare the date part only, so both bounds are inclusive whole days
+      const deals = (dealPage.data as ReportDeal[]).filter((deal) => {
+        const date = (deal[date_field as keyof ReportDeal] as string | null | undefined)?.slice(0, 10);
+        if ((start_date || end_date) && !date) return false;
+        return (
+          (!start_date || date! >= start_date) &&
+          (!end_date || date! <= end_date) &&
+          (!currency || deal.currency === currency)
+        );
+      });
+      const pipelines = (pipelinePage.data as { id: number; name: string }[]).filter(
+        (pipeline) => pipeline_id === undefined || pipeline.id === pipeline_id
+      );
+
+      const currencies = [...new Set(deals.map((deal) => deal.currency).filter(Boolean))];
+      const warnings: string[] = [];
+      if (currencies.length > 1) {
+        warnings.push(`Deals use ${currencies.join(", ")}; values are summed without conversion. Pass currency to separate them.`);
+      }
+      if (dealPage.additional_data.truncated) {
+        warnings.push(`Only the first ${max_deals} deals were analysed; raise max_deals or narrow the filters.`);
+      }
+
+      return toolResult({
+        data: buildPipelineReport(deals, stagePage.data as ReportStage[], pipelines),
+        additional_data: {
+          as_of: new Date().toISOString(),
+          filters: { pipeline_id, owner_id, start_date, end_date, date_field, currency },
+          deal_count: deals.length,
+          currencies,
+          warnings,
+        },
+      });
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_list_stale_deals",
+    description:
+      "Scan open deals for missing next steps: no future activity, overdue activities, no update in N days, past expected close date, or rotting in stage. Returns a ranked list with a suggested action per deal",
+    parameters: Type.Object({
+      pipeline_id: Type.Optional(Type.Number({ description: "Only deals in this pipeline" })),
+      owner_id: Type.Optional(Type.Number({ description: "Only deals owned by this user" })),
+      stale_days: Type.Optional(Type.Number({ description: "Flag deals not updated for this many days (default 14)" })),
+      flags: Type.Optional(
+        Type.Array(Type.String(), {
+          description:
+            "Only deals with any of these flags: overdue_activity, no_next_activity, rotting, past_expected_close, no_recent_update",
+        })
+      ),
+      limit: Type.Optional(Type.Number({ description: "Maximum deals to return (default 50)" })),
+      max_deals: Type.Optional(Type.Number({ description: "Maximum open deals to scan (default 10000)" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { pipeline_id, owner_id, stale_days = 14, flags, limit = 50, max_deals = 10_000 } = params as {
+        pipeline_id?: number;
+        owner_id?: number;
+        stale_days?: number;
+        flags?: string[];
+        limit?: number;
+        max_deals?: number;
+      };
+      const [dealPage, stagePage] = await Promise.all([
+        pipedriveList("/deals", {
+          status: "open",
+          pipeline_id,
+          owner_id,
+          include_fields: "next_activity_id",
+          fetch_all: true,
+          max_items: max_deals,
+        }),
+        pipedriveList("/stages", { pipeline_id, fetch_all: true, max_items: 1000 }),
+      ]);
+      const deals = dealPage.data as (StaleDealInput & { next_activity_id?: number | null })[];
+
+      // A deal's next activity is its earliest undone one, so it settles the activity flags on its own
+      // unless it is overdue; only those deals need their full list of undone activities
+      const activities = new Map<number, StaleActivity>();
+      const nextIds = deals.map((deal) => deal.next_activity_id).filter((id): id is number => typeof id === "number");
+      for (let i = 0; i < nextIds.length; i += 100) {
+        const page = await pipedriveRequest(`/activities?ids=${nextIds.slice(i, i + 100).join(",")}&limit=100`);
+        for (const activity of page.data ?? []) activities.set(activity.id, activity);
+      }
+      const today = new Date().toISOString().slice(0, 10);
+      const overdueDealIds = new Set(
+        [...activities.values()].filter((activity) => activity.due_date && activity.due_date < today).map((activity) => activity.deal_id)
+      );
+      for (const dealId of overdueDealIds) {
+        if (!dealId) continue;
+        const page = await pipedriveList("/activities", { deal_id: dealId, done: false, fetch_all: true, max_items: 1000 });
+        for (const activity of page.data) activities.set(activity.id, activity);
+      }
+
+      const stale = findStaleDeals(deals, [...activities.values()], stagePage.data, stale_days).filter(
+        (row) => !flags?.length || row.flags.some((flag) => flags.includes(flag))
+      );
+      return toolResult(
+        {
+          data: stale.slice(0, limit),
+          additional_data: {
+            scanned: deals.length,
+            flagged: stale.length,
+            truncated: dealPage.additional_data.truncated,
+            as_of: new Date().toISOString(),
+          },
+        },
+        params
+      );
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_create_follow_up_activities",
+    description:
+      "Create a follow-up activity on each of several deals (e.g. those found by pipedrive_list_stale_deals), assigned to the deal owner",
+    parameters: Type.Object({
+      deal_ids: Type.Array(Type.Number(), { description: "Deal IDs (max 100)" }),
+      subject: Type.Optional(Type.String({ description: 'Activity subject (default "Follow up")' })),
+      type: Type.Optional(Type.String({ description: "Activity type (default task)" })),
+      due_date: Type.Optional(
+        Type.String({ description: 'Due date: YYYY-MM-DD or e.g. "tomorrow", "in 2 business days" (default today, in each owner\'s timezone)' })
+      ),
+      due_time: Type.Optional(Type.String({ description: "Due time, HH:MM or e.g. 3pm, in each owner's timezone" })),
+      note: Type.Optional(Type.String({ description: "Activity note" })),
+      skip_scheduled: Type.Optional(
+        Type.Boolean({ description: "Skip deals that already have an open activity due today or later (default true)" })
+      ),
+    }),
+    async execute(_id, params) {
+      const {
+        deal_ids,
+        subject = "Follow up",
+        type = "task",
+        due_date = "today",
+        due_time,
+        note,
+        skip_scheduled = true,
+      } = params as {
+        deal_ids: number[];
+        subject?: string;
+        type?: string;
+        due_date?: string;
+        due_time?: string;
+        note?: string;
+        skip_scheduled?: boolean;
+      };
+      if (!deal_ids.length || deal_ids.length > 100) throw new Error("deal_ids must contain 1 to 100 deal IDs");
+      parseWhen(due_date, "UTC", workdays); // fail on an unreadable date before anything is created
+      const time = due_time ? parseTime(due_time) : undefined;
+
+      const today = new Date().toISOString().slice(0, 10);
+      const deals = (await pipedriveRequest(`/deals?ids=${deal_ids.join(",")}&limit=100`)).data as StaleDealInput[];
+      const dealById = new Map(deals.map((deal) => [deal.id, deal]));
+
+      // Sequential on purpose: the rate limiter paces the calls, and a failed deal gets its own row
+      const results: {
+        deal_id: number;
+        status: "created" | "skipped" | "failed";
+        activity_id?: number;
+        reason?: string;
+        error?: string;
+      }[] = [];
+      for (const dealId of deal_ids) {
+        const deal = dealById.get(dealId);
+        if (!deal) {
+          results.push({ deal_id: dealId, status: "failed", error: "Deal not found" });
+          continue;
+        }
+        try {
+          if (skip_scheduled) {
+            const pending = await pipedriveRequest(`/activities?deal_id=${dealId}&done=false&limit=500`);
+            const scheduled = (pending.data as StaleActivity[]).find((activity) => !activity.due_date || activity.due_date >= today);
+            if (scheduled) {
+              results.push({ deal_id: dealId, status: "skipped", reason: `Already scheduled: ${scheduled.subject}` });
+              continue;
+            }
+          }
+          const owner = await scheduleOwner(deal.owner_id);
+          const when = parseWhen(due_date, owner.timezone, workdays);
+          const item = occurrence(when.date, time ?? when.time, DEFAULT_ACTIVITY_MINUTES, owner.timezone);
+          const created = await pipedriveRequest("/activities", {
+            method: "POST",
+            body: JSON.stringify({
+              subject,
+              type,
+              due_date: item.due_date,
+              due_time: item.due_time,
+              note,
+              deal_id: dealId,
+              org_id: deal.org_id ?? undefined,
+              owner_id: deal.owner_id,
+            }),
+          });
+          results.push({ deal_id: dealId, status: "created", activity_id: created.data?.id });
+        } catch (err) {
+          results.push({ deal_id: dealId, status: "failed", error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+
+      const count = (status: (typeof results)[number]["status"]) => results.filter((result) => result.status === status).length;
+      return toolResult({
+        data: results,
+        additional_data: { created: count("created"), skipped: count("skipped"), failed: count("failed") },
+      });
     },
   });
 
   // ============ NOTES (v1 - no v2 available yet) ============
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_list_notes",
     description: "List notes for a deal, person, or organization",
     parameters: Type.Object({
@@ -553,31 +5392,30 @@ export default function register(api: { pluginConfig: unknown; registerTool: (..
       org_id: Type.Optional(Type.Number({ description: "Filter by organization ID" })),
       limit: Type.Optional(Type.Number({ description: "Number of results" })),
       start: Type.Optional(Type.Number({ description: "Pagination offset" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const query = new URLSearchParams();
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) query.set(key, String(value));
-      }
-      const data = await pipedriveRequest(`/notes?${query}`, { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveList("/notes", params, { useV1: true });
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_get_note",
     description: "Get details of a specific note by ID",
     parameters: Type.Object({
       id: Type.Number({ description: "Note ID" }),
+      ...outputParams,
     }),
     async execute(_id, params) {
       const { id } = params as { id: number };
       const data = await pipedriveRequest(`/notes/${id}`, { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_create_note",
     description: "Create a note on a deal, person, or organization",
     parameters: Type.Object({
@@ -592,11 +5430,11 @@ export default function register(api: { pluginConfig: unknown; registerTool: (..
         body: JSON.stringify(params),
         useV1: true,
       });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_update_note",
     description: "Update an existing note",
     parameters: Type.Object({
@@ -610,142 +5448,771 @@ export default function register(api: { pluginConfig: unknown; registerTool: (..
         body: JSON.stringify(updateParams),
         useV1: true,
       });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_delete_note",
     description: "Delete a note",
+    destructive: true,
     parameters: Type.Object({
       id: Type.Number({ description: "Note ID to delete" }),
     }),
     async execute(_id, params) {
       const { id } = params as { id: number };
       const data = await pipedriveRequest(`/notes/${id}`, { method: "DELETE", useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data);
     },
   });
 
   // ============ MAIL / EMAIL (v1 - not available in v2) ============
 
-  api.registerTool({
+  const mailBodyParams = {
+    body_format: Type.Optional(
+      Type.Union([Type.Literal("clean"), Type.Literal("text"), Type.Literal("html")], {
+        description:
+          "clean (default): plain text of the new content, without quoted replies and signature; text: the whole body as plain text; html: the raw body",
+      })
+    ),
+  };
+
+  function mailParty(party: { name?: string; email_address?: string }) {
+    return party.name && party.name !== party.email_address ? `${party.name} <${party.email_address}>` : party.email_address;
+  }
+
+  // Pipedrive saves attachments as files on the thread's deal; without a deal only the flag is known
+  async function mailAttachments(dealId: number | null | undefined) {
+    const files = new Map<number, { id: number; name: string; file_type?: string; file_size?: number }[]>();
+    if (!dealId) return files;
+    const { data } = await pipedriveList(`/deals/${dealId}/files`, { fetch_all: true, max_items: 1000 }, { useV1: true });
+    for (const file of data as Record<string, any>[]) {
+      if (!file.mail_message_id) continue;
+      const list = files.get(file.mail_message_id) ?? [];
+      list.push({ id: file.id, name: file.name, file_type: file.file_type, file_size: file.file_size });
+      files.set(file.mail_message_id, list);
+    }
+    return files;
+  }
+
+  function hasAttachments(message: Record<string, any>) {
+    return !!(message.has_real_attachments_flag ?? message.has_attachments_flag);
+  }
+
+  registerTool({
     name: "pipedrive_list_deal_mail_messages",
     description: "List email messages linked to a specific deal. Returns email subjects, senders, recipients, timestamps, and body snippets.",
     parameters: Type.Object({
       deal_id: Type.Number({ description: "Deal ID (required)" }),
       start: Type.Optional(Type.Number({ description: "Pagination offset (default 0)" })),
       limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const { deal_id, start, limit } = params as { deal_id: number; start?: number; limit?: number };
-      const query = new URLSearchParams();
-      if (start !== undefined) query.set("start", String(start));
-      if (limit !== undefined) query.set("limit", String(limit));
-      const qs = query.toString() ? `?${query}` : "";
-      const data = await pipedriveRequest(`/deals/${deal_id}/mailMessages${qs}`, { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const { deal_id, ...listParams } = params as { deal_id: number } & Record<string, unknown>;
+      const data = await pipedriveList(`/deals/${deal_id}/mailMessages`, listParams, { useV1: true });
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_get_mail_message",
-    description: "Get a specific email message by ID, including full body, headers, and attachments info",
+    description:
+      "Get a specific email message by ID, including body, headers and attachments. The body comes as clean text by default: no HTML, quoted replies or signature",
     parameters: Type.Object({
       id: Type.Number({ description: "Mail message ID" }),
       include_body: Type.Optional(Type.Boolean({ description: "Include full email body (default true)" })),
+      ...mailBodyParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const { id, include_body } = params as { id: number; include_body?: boolean };
+      const { id, include_body, body_format = "clean" } = params as { id: number; include_body?: boolean; body_format?: string };
       const query = new URLSearchParams();
       if (include_body !== undefined) query.set("include_body", include_body ? "1" : "0");
       const qs = query.toString() ? `?${query}` : "";
       const data = await pipedriveRequest(`/mailbox/mailMessages/${id}${qs}`, { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const message = data.data as Record<string, any> | null;
+      if (!message) return toolResult(data, params);
+
+      const extra: Record<string, unknown> = {};
+      if (typeof message.body === "string" && body_format === "text") {
+        extra.body = htmlToText(message.body);
+      } else if (typeof message.body === "string" && body_format === "clean") {
+        const { text, ...removed } = cleanMailBody(message.body);
+        Object.assign(extra, { body: text, ...removed });
+      }
+      if (hasAttachments(message)) {
+        const thread = await pipedriveRequest(`/mailbox/mailThreads/${message.mail_thread_id}`, { useV1: true });
+        extra.attachments = (await mailAttachments(thread.data?.deal_id)).get(message.id) ?? "not available: the thread is not linked to a deal";
+      }
+      return toolResult({ ...data, data: { ...message, ...extra } }, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_list_mail_threads",
     description: "List email threads from the Pipedrive mailbox. Threads group related email messages together.",
     parameters: Type.Object({
-      folder: Type.Optional(Type.String({ description: "Mailbox folder: inbox, drafts, sent, archive (default inbox)" })),
+      folder: Type.Optional(
+        stringEnum(["inbox", "drafts", "sent", "archive"], { description: "Mailbox folder (default inbox)" })
+      ),
       start: Type.Optional(Type.Number({ description: "Pagination offset (default 0)" })),
       limit: Type.Optional(Type.Number({ description: "Number of results (default 50)" })),
+      ...fetchAllParams,
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const query = new URLSearchParams();
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) query.set(key, String(value));
-      }
-      const qs = query.toString() ? `?${query}` : "";
-      const data = await pipedriveRequest(`/mailbox/mailThreads${qs}`, { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      const data = await pipedriveList("/mailbox/mailThreads", params, { useV1: true });
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_get_mail_thread",
     description: "Get a specific email thread by ID, including all messages in the thread",
     parameters: Type.Object({
       id: Type.Number({ description: "Mail thread ID" }),
+      ...outputParams,
     }),
     async execute(_id, params) {
       const { id } = params as { id: number };
       const data = await pipedriveRequest(`/mailbox/mailThreads/${id}`, { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_list_mail_thread_messages",
-    description: "List all email messages within a specific mail thread",
+    description:
+      "List all email messages within a specific mail thread. digest: true returns only sender, date, new content and attachments per message, oldest first",
     parameters: Type.Object({
       id: Type.Number({ description: "Mail thread ID" }),
+      digest: Type.Optional(
+        Type.Boolean({ description: "Compact digest: sender, date, clean new content and attachment names per message" })
+      ),
+      max_messages: Type.Optional(Type.Number({ description: "Digest: most recent messages to include (default 20)" })),
+      text_chars: Type.Optional(Type.Number({ description: "Digest: maximum characters of each message (default 1500)" })),
+      ...outputParams,
     }),
     async execute(_id, params) {
-      const { id } = params as { id: number };
+      const { id, digest, max_messages = 20, text_chars = 1500 } = params as {
+        id: number;
+        digest?: boolean;
+        max_messages?: number;
+        text_chars?: number;
+      };
       const data = await pipedriveRequest(`/mailbox/mailThreads/${id}/mailMessages`, { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      if (!digest) return toolResult(data, params);
+
+      const all = (data.data ?? []) as Record<string, any>[];
+      const messages = [...all].sort((a, b) => Date.parse(a.message_time) - Date.parse(b.message_time)).slice(-max_messages);
+      const thread = (await pipedriveRequest(`/mailbox/mailThreads/${id}`, { useV1: true })).data ?? {};
+      const files: Awaited<ReturnType<typeof mailAttachments>> = messages.some(hasAttachments)
+        ? await mailAttachments(thread.deal_id)
+        : new Map();
+
+      const rows: Record<string, unknown>[] = [];
+      for (const message of messages) {
+        const body =
+          typeof message.body === "string"
+            ? message.body
+            : (await pipedriveRequest(`/mailbox/mailMessages/${message.id}?include_body=1`, { useV1: true })).data?.body;
+        const text = typeof body === "string" ? cleanMailBody(body).text : "";
+        rows.push({
+          id: message.id,
+          from: (message.from ?? []).map(mailParty).join(", "),
+          date: message.message_time,
+          text: truncate(text || message.snippet || "", text_chars),
+          attachments: hasAttachments(message) ? (files.get(message.id)?.map((file) => file.name) ?? true) : undefined,
+        });
+      }
+      return toolResult(
+        {
+          data: rows,
+          additional_data: { thread_id: id, subject: thread.subject, deal_id: thread.deal_id, message_count: all.length },
+        },
+        params
+      );
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_link_mail_thread",
+    description:
+      "Link an email thread to a deal or lead so it shows in its timeline. Persons are linked by Pipedrive itself through the participants' email addresses",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Mail thread ID" }),
+      deal_id: Type.Optional(Type.Number({ description: "Deal to link the thread to" })),
+      lead_id: Type.Optional(Type.String({ description: "Lead (UUID) to link the thread to" })),
+    }),
+    async execute(_id, params) {
+      const { id, deal_id, lead_id } = params as { id: number; deal_id?: number; lead_id?: string };
+      if ((deal_id === undefined) === (lead_id === undefined)) throw new Error("Pass either deal_id or lead_id");
+      const data = await pipedriveRequest(`/mailbox/mailThreads/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(deal_id !== undefined ? { deal_id } : { lead_id }),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_unlink_mail_thread",
+    description: "Remove an email thread's link to its deal or lead",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Mail thread ID" }),
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await pipedriveRequest(`/mailbox/mailThreads/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ deal_id: null, lead_id: null }),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_update_mail_thread",
+    description: "Mark an email thread as read/unread, archive or unarchive it, or share it with other users",
+    parameters: Type.Object({
+      id: Type.Number({ description: "Mail thread ID" }),
+      read: Type.Optional(Type.Boolean({ description: "true = read, false = unread" })),
+      archived: Type.Optional(Type.Boolean({ description: "true = move to archive, false = back to inbox" })),
+      shared: Type.Optional(Type.Boolean({ description: "true = visible to other users of the company" })),
+    }),
+    async execute(_id, params) {
+      const { id, read, archived, shared } = params as { id: number; read?: boolean; archived?: boolean; shared?: boolean };
+      const flags = { read_flag: read, archived_flag: archived, shared_flag: shared };
+      const body = Object.fromEntries(
+        Object.entries(flags)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [key, value ? 1 : 0])
+      );
+      if (!Object.keys(body).length) throw new Error("Pass at least one of read, archived or shared");
+      const data = await pipedriveRequest(`/mailbox/mailThreads/${id}`, { method: "PUT", body: JSON.stringify(body), useV1: true });
+      return toolResult(data);
     },
   });
 
   // ============ USERS (v1 - mostly no v2 available) ============
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_list_users",
     description: "List all users in the Pipedrive account",
-    parameters: Type.Object({}),
-    async execute() {
+    parameters: Type.Object({
+      ...outputParams,
+    }),
+    async execute(_id, params) {
       const data = await pipedriveRequest("/users", { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_get_current_user",
     description: "Get the current authenticated user's details",
-    parameters: Type.Object({}),
-    async execute() {
+    parameters: Type.Object({
+      ...outputParams,
+    }),
+    async execute(_id, params) {
       const data = await pipedriveRequest("/users/me", { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data, params);
     },
   });
 
-  api.registerTool({
+  registerTool({
     name: "pipedrive_get_user",
     description: "Get details of a specific user by ID",
     parameters: Type.Object({
       id: Type.Number({ description: "User ID" }),
+      ...outputParams,
     }),
     async execute(_id, params) {
       const { id } = params as { id: number };
       const data = await pipedriveRequest(`/users/${id}`, { useV1: true });
-      return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+      return toolResult(data, params);
+    },
+  });
+
+  // ============ FIELDS (v1 - field definitions not available in v2) ============
+
+  registerTool({
+    name: "pipedrive_list_fields",
+    description:
+      "List field definitions (built-in and custom) for deals, persons, organizations or activities, with option labels for enum/set fields. Use the field names in custom_fields on create/update tools.",
+    parameters: Type.Object({
+      entity: Type.Union(
+        [Type.Literal("deal"), Type.Literal("person"), Type.Literal("organization"), Type.Literal("activity")],
+        { description: "Entity type: deal, person, organization, activity" }
+      ),
+      custom_only: Type.Optional(Type.Boolean({ description: "Only return custom fields (default true)" })),
+      refresh: Type.Optional(Type.Boolean({ description: "Refetch definitions instead of using the cached copy" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { entity, custom_only = true, refresh } = params as { entity: FieldEntity; custom_only?: boolean; refresh?: boolean };
+      const definitions = await getFieldDefinitions(entity, refresh);
+      const data = definitions
+        .filter((f) => !custom_only || CUSTOM_FIELD_KEY.test(f.key))
+        .map((f) => ({
+          key: f.key,
+          name: f.name,
+          type: f.field_type,
+          options: f.options?.map((o) => o.label),
+        }));
+      return toolResult({ data }, params);
+    },
+  });
+
+  // ============ SAVED FILTERS (v1) ============
+
+  // Pipedrive's filter types, and where their records are listed
+  const FILTER_SOURCES: Record<string, { type: string; object: string; path: string; entity: FieldEntity }> = {
+    deals: { type: "deals", object: "deal", path: "/deals", entity: "deal" },
+    persons: { type: "people", object: "person", path: "/persons", entity: "person" },
+    organizations: { type: "org", object: "organization", path: "/organizations", entity: "organization" },
+    activities: { type: "activity", object: "activity", path: "/activities", entity: "activity" },
+  };
+  const filterType = stringEnum(Object.keys(FILTER_SOURCES), { description: "Record type the filter applies to" });
+
+  function filterSource(type: string) {
+    const wanted = type.trim().toLowerCase();
+    const source =
+      FILTER_SOURCES[wanted] ??
+      FILTER_SOURCES[`${singularize(wanted)}s`] ??
+      Object.values(FILTER_SOURCES).find((candidate) => candidate.type === wanted);
+    if (!source) throw new Error(`type must be one of: ${Object.keys(FILTER_SOURCES).join(", ")}`);
+    return source;
+  }
+
+  const FILTER_OPERATORS: Partial<Record<WhereOperator, string>> = {
+    "=": "=",
+    "!=": "!=",
+    ">": ">",
+    ">=": ">=",
+    "<": "<",
+    "<=": "<=",
+    contains: "LIKE '%$%'",
+    empty: "IS NULL",
+    not_empty: "IS NOT NULL",
+  };
+
+  // Pipedrive stores a filter as one AND group plus one OR group of conditions on field IDs
+  async function filterConditions(where: WhereClause, source: (typeof FILTER_SOURCES)[string]) {
+    const definitions = await getFieldDefinitions(source.entity);
+
+    const toConditions = (condition: WhereCondition, group: "and" | "or"): Record<string, unknown>[] => {
+      const wanted = condition.field.trim().toLowerCase();
+      const field = definitions.find((f) => f.key === condition.field || f.name.toLowerCase() === wanted);
+      if (!field?.id) {
+        const valid = definitions.map((f) => f.name).join(", ");
+        throw new Error(`Unknown ${source.entity} field "${condition.field}". Available fields: ${valid}`);
+      }
+      const op = condition.op ?? "=";
+      if (op === "between" && group === "and") {
+        const [from, to] = condition.value as unknown[];
+        return [
+          ...toConditions({ field: condition.field, op: ">=", value: from }, group),
+          ...toConditions({ field: condition.field, op: "<=", value: to }, group),
+        ];
+      }
+      const operator = FILTER_OPERATORS[op];
+      if (!operator) {
+        throw new Error(`Saved filters cannot express ${describeWhere(condition)}; use = conditions in an or group or >=/<= instead`);
+      }
+      let value: unknown = null;
+      if (op !== "empty" && op !== "not_empty") {
+        value = field.options?.length
+          ? findOption(field, condition.value)
+          : typeof condition.value === "string"
+            ? resolveRelativeDate(condition.value) ?? condition.value
+            : condition.value;
+      }
+      return [{ object: source.object, field_id: String(field.id), operator, value, extra_value: null }];
+    };
+
+    const items = isWhereCondition(where) ? [where] : "and" in where ? where.and : [where];
+    const all: Record<string, unknown>[] = [];
+    let any: Record<string, unknown>[] | undefined;
+    for (const item of items) {
+      if (isWhereCondition(item)) {
+        all.push(...toConditions(item, "and"));
+      } else if ("or" in item && !any && item.or.every(isWhereCondition)) {
+        any = item.or.flatMap((condition) => toConditions(condition as WhereCondition, "or"));
+      } else {
+        throw new Error("Saved filters take AND conditions plus at most one OR group of conditions");
+      }
+    }
+    return { glue: "and", conditions: [{ glue: "and", conditions: all }, { glue: "or", conditions: any ?? [] }] };
+  }
+
+  registerTool({
+    name: "pipedrive_list_filters",
+    description: "List saved filters, optionally of one type",
+    parameters: Type.Object({
+      type: Type.Optional(filterType),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { type } = params as { type?: string };
+      const qs = type ? `?type=${filterSource(type).type}` : "";
+      const data = await pipedriveRequest(`/filters${qs}`, { useV1: true });
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_create_filter",
+    description:
+      "Save a filter in Pipedrive from a where clause. Field names and option labels are resolved to IDs, relative dates to fixed dates",
+    parameters: Type.Object({
+      name: Type.String({ description: "Filter name" }),
+      type: filterType,
+      where: whereClause,
+    }),
+    async execute(_id, params) {
+      const { name, type, where } = params as { name: string; type: string; where: unknown };
+      validateWhere(where);
+      const source = filterSource(type);
+      const conditions = await filterConditions(where, source);
+      const data = await pipedriveRequest("/filters", {
+        method: "POST",
+        body: JSON.stringify({ name, type: source.type, conditions }),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_run_filter",
+    description: "Return the records matching a saved filter, optionally narrowed further with a where clause",
+    parameters: Type.Object({
+      filter_id: Type.Number({ description: "Saved filter ID" }),
+      ...whereParams,
+      limit: Type.Optional(Type.Number({ description: "Number of results (default 100)" })),
+      cursor: Type.Optional(Type.String({ description: "Pagination cursor" })),
+      sort_by: Type.Optional(stringEnum(["id", "add_time", "update_time"], { description: "Sort by (deal filters only)" })),
+      sort_direction: Type.Optional(sortDirection),
+      ...fetchAllParams,
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { filter_id, sort_by } = params as { filter_id: number; sort_by?: string };
+      const filter = await pipedriveRequest(`/filters/${filter_id}`, { useV1: true });
+      const source = filterSource(String(filter.data?.type ?? ""));
+      if (sort_by !== undefined && source.entity !== "deal") {
+        throw new ToolError("validation", `sort_by is only supported for deal filters; filter ${filter_id} is a ${source.object} filter`, {
+          field: "sort_by",
+          hint: "Call again without sort_by and sort_direction",
+        });
+      }
+      const data = await listWhere(source.path, source.entity, params);
+      const about = { id: filter_id, name: filter.data?.name, type: filter.data?.type };
+      return toolResult({ ...data, additional_data: { ...data.additional_data, filter: about } }, params);
+    },
+  });
+
+  // ============ WEBHOOKS (v1 management + local receiver) ============
+
+  const webhookConfig = cfg.webhooks ?? {};
+  const webhookPath = webhookConfig.path || "/pipedrive/webhook";
+  const webhookEvents: CrmChangeEvent[] = [];
+
+  async function forwardWebhookEvent(event: CrmChangeEvent) {
+    if (!webhookConfig.forwardUrl) return;
+    try {
+      const res = await fetch(webhookConfig.forwardUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(webhookConfig.forwardToken ? { Authorization: `Bearer ${webhookConfig.forwardToken}` } : {}),
+        },
+        body: JSON.stringify({
+          name: "Pipedrive",
+          message: `Pipedrive${clients.size > 1 && event.account ? ` (${event.account})` : ""}: ${event.summary}`,
+          event,
+        }),
+      });
+      if (!res.ok) console.warn(`[pipedrive] Webhook forward failed (${res.status})`);
+    } catch (err) {
+      console.warn(`[pipedrive] Webhook forward failed: ${err}`);
+    }
+  }
+
+  // Webhooks registered by pipedrive_create_webhook carry ?account=<name>; otherwise the v1 payload's
+  // host, or the only configured account, tells which CRM an event came from
+  function webhookAccount(query: URLSearchParams, meta: Record<string, unknown>): string | undefined {
+    const named = query.get("account");
+    if (named && clients.has(named)) return named;
+    const host = typeof meta.host === "string" ? meta.host.split(".")[0] : undefined;
+    const byHost = [...accounts].find(([, account]) => account.domain === host)?.[0];
+    return byHost ?? (clients.size === 1 ? defaultAccount : undefined);
+  }
+
+  function startWebhookListener() {
+    const { username, password, port = 8787, host = "127.0.0.1" } = webhookConfig;
+    if (!username || !password) {
+      console.warn("[pipedrive] Webhook listener not started: webhooks.username and webhooks.password are required");
+      return;
+    }
+    const expectedAuth = `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+
+    const server = createServer((req, res) => {
+      const reply = (status: number, message: string) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ message }));
+      };
+      if (req.method !== "POST" || req.url?.split("?")[0] !== webhookPath) return reply(404, "Not found");
+      if (!safeEqual(req.headers.authorization ?? "", expectedAuth)) {
+        res.setHeader("WWW-Authenticate", 'Basic realm="pipedrive"');
+        return reply(401, "Unauthorized");
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on("data", (chunk: Buffer) => {
+        if (res.headersSent) return;
+        size += chunk.length;
+        if (size <= MAX_WEBHOOK_BODY_BYTES) return void chunks.push(chunk);
+        // Answer, then drop the connection instead of reading the rest
+        res.setHeader("Connection", "close");
+        res.once("finish", () => req.destroy());
+        reply(413, `Payload larger than ${MAX_WEBHOOK_BODY_BYTES} bytes`);
+      });
+      req.on("end", () => {
+        if (res.headersSent) return;
+        let event: CrmChangeEvent;
+        try {
+          const payload = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+          event = normalizeWebhookEvent(payload);
+          event.account = webhookAccount(new URL(req.url ?? "/", "http://localhost").searchParams, payload.meta);
+        } catch (err) {
+          return reply(400, err instanceof Error ? err.message : "Invalid payload");
+        }
+        webhookEvents.push(event);
+        if (webhookEvents.length > MAX_WEBHOOK_EVENTS) webhookEvents.shift();
+        // Acknowledge right away; Pipedrive retries deliveries that are slow to answer
+        reply(200, "ok");
+        void forwardWebhookEvent(event);
+      });
+    });
+    server.on("error", (err) => console.warn(`[pipedrive] Webhook listener error: ${err.message}`));
+    server.listen(port, host, () => console.log(`[pipedrive] Webhook listener on http://${host}:${port}${webhookPath}`));
+    server.unref();
+  }
+
+  if (webhookConfig.enabled) startWebhookListener();
+
+  registerTool({
+    name: "pipedrive_list_webhook_events",
+    description:
+      "List CRM change events received by the local webhook listener (newest first): entity, action, and previous vs current values of changed fields",
+    parameters: Type.Object({
+      entity: Type.Optional(Type.String({ description: "Filter by entity, e.g. deal, person, organization, activity" })),
+      action: Type.Optional(stringEnum(["create", "change", "delete", "merge"], { description: "Filter by action" })),
+      entity_id: Type.Optional(Type.Union([Type.Number(), Type.String()], { description: "Filter by record ID" })),
+      field: Type.Optional(Type.String({ description: "Only change events where this field changed, e.g. stage_id" })),
+      since: Type.Optional(Type.String({ description: "Only events received at or after this time (ISO 8601)" })),
+      limit: Type.Optional(Type.Number({ description: "Maximum events to return (default 50)" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { entity, action, entity_id, field, since, limit = 50 } = params as {
+        entity?: string;
+        action?: string;
+        entity_id?: number | string;
+        field?: string;
+        since?: string;
+        limit?: number;
+      };
+      const sinceMs = since ? Date.parse(since) : undefined;
+      if (Number.isNaN(sinceMs)) throw new Error("since must be an ISO 8601 date");
+      const events = webhookEvents
+        .filter(
+          (event) =>
+            (!entity || singularize(event.entity) === singularize(entity)) &&
+            (!action || event.action === action) &&
+            (entity_id === undefined || String(event.entity_id) === String(entity_id)) &&
+            (!field || field in event.changes) &&
+            (sinceMs === undefined || Date.parse(event.received_at) >= sinceMs)
+        )
+        .reverse();
+      const listening = webhookConfig.enabled ? `${webhookConfig.host ?? "127.0.0.1"}:${webhookConfig.port ?? 8787}` : null;
+      return toolResult(
+        { data: events.slice(0, limit), additional_data: { total_matches: events.length, listener: listening } },
+        params
+      );
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_list_webhooks",
+    description: "List webhooks registered in the Pipedrive account",
+    parameters: Type.Object({
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const data = await pipedriveRequest("/webhooks", { useV1: true });
+      return toolResult(data, params);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_create_webhook",
+    description:
+      "Register a Pipedrive webhook. Defaults to this plugin's listener (webhooks.publicUrl) with its basic-auth credentials.",
+    parameters: Type.Object({
+      event_object: stringEnum([...WEBHOOK_OBJECTS, "*"], { description: "Entity, or * for all" }),
+      event_action: stringEnum(["create", "change", "delete", "*"], { description: "Action, or * for all" }),
+      subscription_url: Type.Optional(Type.String({ description: "Receiving URL (default webhooks.publicUrl)" })),
+      user_id: Type.Optional(Type.Number({ description: "Only events caused by this user, and with their permissions" })),
+      name: Type.Optional(Type.String({ description: "Webhook name" })),
+    }),
+    async execute(_id, params) {
+      const { subscription_url, ...rest } = params as { subscription_url?: string } & Record<string, unknown>;
+      let url = subscription_url;
+      if (!url && webhookConfig.publicUrl) {
+        // Tags deliveries with the account, so events from several CRMs can be told apart
+        const tagged = new URL(webhookConfig.publicUrl);
+        tagged.searchParams.set("account", toolCalls.getStore()?.account ?? defaultAccount);
+        url = tagged.toString();
+      }
+      if (!url) throw new Error("subscription_url is required (or set webhooks.publicUrl in the plugin config)");
+      const body: Record<string, unknown> = { ...rest, subscription_url: url, version: "2.0" };
+      if (!subscription_url && webhookConfig.username && webhookConfig.password) {
+        body.http_auth_user = webhookConfig.username;
+        body.http_auth_password = webhookConfig.password;
+      }
+      const data = await pipedriveRequest("/webhooks", {
+        method: "POST",
+        body: JSON.stringify(body),
+        useV1: true,
+      });
+      return toolResult(data);
+    },
+  });
+
+  registerTool({
+    name: "pipedrive_delete_webhook",
+    description: "Delete a webhook registration",
+    destructive: true,
+    parameters: Type.Object({
+      id: Type.Number({ description: "Webhook ID to delete" }),
+    }),
+    async execute(_id, params) {
+      const { id } = params as { id: number };
+      const data = await pipedriveRequest(`/webhooks/${id}`, { method: "DELETE", useV1: true });
+      return toolResult(data);
+    },
+  });
+
+  // ============ CACHE (local) ============
+
+  registerTool({
+    name: "pipedrive_cache_clear",
+    description:
+      "Clear cached metadata (pipelines, stages, users, currencies, activity types, lead labels/sources, field definitions) so the next call fetches it fresh",
+    parameters: Type.Object({
+      category: Type.Optional(
+        Type.String({
+          description:
+            "Only this kind: pipelines, stages, users, currencies, activityTypes, leadLabels, leadSources, fields, or an entity's fields like dealFields. Default: everything",
+        })
+      ),
+      all_accounts: Type.Optional(Type.Boolean({ description: "Clear the cache of every configured account (default: selected account only)" })),
+    }),
+    async execute(_id, params) {
+      const { category, all_accounts } = params as { category?: string; all_accounts?: boolean };
+      const fieldCategories = [...new Set([...metadataCache.values()].map((entry) => entry.category))].filter((name) =>
+        name.endsWith("Fields")
+      );
+      const categories = category === "fields" ? fieldCategories : category ? [category] : undefined;
+      const cleared = clearMetadata(all_accounts ? undefined : currentClient(), categories);
+      return toolResult({ cleared, remaining: metadataCache.size });
+    },
+  });
+
+  // ============ AUDIT LOG (local) ============
+
+  registerTool({
+    name: "pipedrive_audit_log",
+    description:
+      "Query the local audit log of every create/update/delete this plugin sent to Pipedrive for the selected account (newest first). Each entry has the tool, tool call ID, endpoint, request body, before-snapshot and response status.",
+    parameters: Type.Object({
+      entity: Type.Optional(Type.String({ description: "Filter by entity, e.g. deal, person, organization, activity, note" })),
+      entity_id: Type.Optional(Type.Union([Type.Number(), Type.String()], { description: "Filter by record ID (UUID for leads)" })),
+      tool: Type.Optional(Type.String({ description: "Filter by tool name, e.g. pipedrive_update_deal" })),
+      since: Type.Optional(Type.String({ description: "Only entries at or after this time (ISO 8601, e.g. 2025-01-31 or 2025-01-31T09:00:00Z)" })),
+      until: Type.Optional(Type.String({ description: "Only entries before this time (ISO 8601)" })),
+      limit: Type.Optional(Type.Number({ description: "Maximum entries to return (default 50)" })),
+      ...outputParams,
+    }),
+    async execute(_id, params) {
+      const { entity, entity_id, tool, since, until, limit = 50 } = params as {
+        entity?: string;
+        entity_id?: number | string;
+        tool?: string;
+        since?: string;
+        until?: string;
+        limit?: number;
+      };
+      let lines: string[];
+      try {
+        lines = (await readFile(auditPath, "utf8")).split("\n");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") lines = [];
+        else throw err;
+      }
+      const sinceMs = since ? Date.parse(since) : undefined;
+      const untilMs = until ? Date.parse(until) : undefined;
+      if (Number.isNaN(sinceMs) || Number.isNaN(untilMs)) throw new Error("since/until must be ISO 8601 dates");
+
+      // A line cut short by a crash mid-write must not hide every other entry; report where it is instead
+      const unreadable: number[] = [];
+      const parsed = lines.flatMap((line, index) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as AuditEntry];
+        } catch {
+          unreadable.push(index + 1);
+          return [];
+        }
+      });
+
+      const account = currentClient().name;
+      const entries = parsed
+        .filter((entry) => {
+          const time = Date.parse(entry.timestamp);
+          return (
+            (entry.account ?? defaultAccount) === account &&
+            (!entity || singularize(entry.entity) === singularize(entity)) &&
+            (entity_id === undefined || String(entry.entity_id) === String(entity_id)) &&
+            (!tool || entry.tool === tool) &&
+            (sinceMs === undefined || time >= sinceMs) &&
+            (untilMs === undefined || time < untilMs)
+          );
+        })
+        .reverse();
+      return toolResult(
+        {
+          data: entries.slice(0, limit),
+          additional_data: {
+            total_matches: entries.length,
+            log_path: auditPath,
+            ...(unreadable.length ? { unreadable_lines: unreadable } : {}),
+          },
+        },
+        params
+      );
     },
   });
 
-  const v2Tools = 27;
-  const v1Tools = 13;
-  console.log(`[pipedrive] Registered ${v2Tools + v1Tools} tools (${v2Tools} v2, ${v1Tools} v1) for ${domain}.pipedrive.com`);
+  const mode = cfg.readOnly ? " (read-only)" : "";
+  const domains = [...clients.values()].map((client) => `${client.domain}.pipedrive.com`).join(", ");
+  console.log(`[pipedrive] Registered ${registeredTools} tools${mode} for ${domains}`);
 }
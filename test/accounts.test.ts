@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { apiError, ok, setup } from "./helpers.ts";
+
+const config = {
+  apiKey: undefined,
+  accounts: {
+    eu: { apiKey: "eu-key", domain: "acme-eu" },
+    us: { apiKey: "us-key", domain: "acme-us" },
+  },
+  defaultAccount: "eu",
+  retry: { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1000 },
+};
+
+const fields = (url: URL) => url.pathname.endsWith("Fields");
+
+describe("multiple accounts", () => {
+  it("sends each call to its account's host with its credentials", async () => {
+    const { call, requests } = setup(config, ({ url }) => (fields(url) ? ok([]) : ok({ id: 5, title: url.hostname })));
+
+    assert.equal((await call("pipedrive_get_deal", { id: 5 })).body.title, "acme-eu.pipedrive.com");
+    assert.equal((await call("pipedrive_get_deal", { id: 5, account: "us" })).body.title, "acme-us.pipedrive.com");
+
+    const deals = requests.filter((request) => request.url.pathname.endsWith("/deals/5"));
+    assert.deepEqual(
+      deals.map((request) => [request.url.hostname, request.headers.get("x-api-token")]),
+      [
+        ["acme-eu.pipedrive.com", "eu-key"],
+        ["acme-us.pipedrive.com", "us-key"],
+      ]
+    );
+  });
+
+  it("rejects an account that is not configured", async () => {
+    const { call, requests } = setup(config, () => ok([]));
+    const { isError, body } = await call("pipedrive_get_deal", { id: 5, account: "apac" });
+    assert.equal(isError, true);
+    assert.equal(body.error.field, "account");
+    assert.match(body.error.hint, /eu, us/);
+    assert.equal(requests.length, 0);
+  });
+
+  it("keeps cached metadata apart", async () => {
+    const { call, requests } = setup(config, ({ url }) => ok([{ id: 1, name: `Sales ${url.hostname.split(".")[0]}` }]));
+
+    const first = await call("pipedrive_list_pipelines", {});
+    const again = await call("pipedrive_list_pipelines", {});
+    const other = await call("pipedrive_list_pipelines", { account: "us" });
+    assert.deepEqual(first.body, again.body);
+    assert.equal(first.body[0].name, "Sales acme-eu");
+    assert.equal(other.body[0].name, "Sales acme-us");
+    assert.deepEqual(requests.map((request) => request.url.hostname), ["acme-eu.pipedrive.com", "acme-us.pipedrive.com"]);
+  });
+
+  it("does not hold one account's calls while another is rate limited", async () => {
+    let euCalls = 0;
+    const { call } = setup(config, ({ url }) => {
+      if (fields(url)) return ok([]);
+      if (url.hostname.startsWith("acme-eu") && ++euCalls === 1) return apiError(429, "Too many requests", { "retry-after": "1" });
+      return ok({ id: 5 });
+    });
+
+    const start = Date.now();
+    const eu = call("pipedrive_get_deal", { id: 5 });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await call("pipedrive_get_deal", { id: 5, account: "us" });
+    assert.ok(Date.now() - start < 500, `us waited ${Date.now() - start}ms`);
+    assert.equal((await eu).isError, false);
+    assert.ok(Date.now() - start >= 900);
+  });
+});
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { ok, setup } from "./helpers.ts";
+
+const entry = (entity_id: number, timestamp: string) =>
+  JSON.stringify({
+    timestamp,
+    account: "default",
+    tool: "pipedrive_update_deal",
+    method: "PATCH",
+    endpoint: `/v2/deals/${entity_id}`,
+    entity: "deals",
+    entity_id,
+    status: 200,
+  });
+
+describe("pipedrive_audit_log", () => {
+  it("skips and reports lines it cannot parse", async () => {
+    const path = join(await mkdtemp(join(tmpdir(), "pipedrive-audit-")), "audit.jsonl");
+    const lines = [entry(1, "2026-03-01T10:00:00Z"), '{"timestamp":"2026-03-01T11:00:00Z","acc', entry(2, "2026-03-02T10:00:00Z")];
+    await writeFile(path, lines.join("\n") + "\n");
+    const { call } = setup({ audit: { enabled: true, path } }, () => ok([]));
+
+    const { isError, body } = await call("pipedrive_audit_log", { entity: "deal" });
+    assert.equal(isError, false);
+    assert.deepEqual(body.data.map((item: { entity_id: number }) => item.entity_id), [2, 1]);
+    assert.equal(body.additional_data.total_matches, 2);
+    assert.deepEqual(body.additional_data.unreadable_lines, [2]);
+  });
+});
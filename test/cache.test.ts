@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { invalidatedCategories, metadataCategory } from "../index.ts";
+import { ok, setup } from "./helpers.ts";
+
+const gets = (requests: { method: string; url: URL }[], path: string) =>
+  requests.filter((request) => request.method === "GET" && request.url.pathname.endsWith(path)).length;
+
+describe("metadata categories", () => {
+  it("caches metadata endpoints but not record data", () => {
+    assert.equal(metadataCategory("/stages?pipeline_id=1"), "stages");
+    assert.equal(metadataCategory("/dealFields"), "dealFields");
+    assert.equal(metadataCategory("/pipelines/3"), "pipelines");
+    assert.equal(metadataCategory("/stages/5/deals"), undefined);
+    assert.equal(metadataCategory("/deals"), undefined);
+  });
+
+  it("flushes the written kind, and stages with pipelines", () => {
+    assert.deepEqual(invalidatedCategories("/stages/5"), ["stages"]);
+    assert.deepEqual(invalidatedCategories("/pipelines/3?force=1"), ["pipelines", "stages"]);
+    assert.deepEqual(invalidatedCategories("/dealFields/12"), ["dealFields"]);
+  });
+});
+
+describe("metadata cache", () => {
+  it("serves repeated reads from the cache until a write to the same kind", async () => {
+    const { call, requests } = setup({}, ({ method }) => (method === "GET" ? ok([{ id: "l1", name: "Hot" }]) : ok({ id: "l2" })));
+
+    await call("pipedrive_list_lead_labels");
+    await call("pipedrive_list_pipelines");
+    await call("pipedrive_list_lead_labels");
+    assert.equal(gets(requests, "/leadLabels"), 1);
+
+    await call("pipedrive_create_lead_label", { name: "Warm", color: "yellow" });
+    await call("pipedrive_list_lead_labels");
+    await call("pipedrive_list_pipelines");
+    assert.equal(gets(requests, "/leadLabels"), 2);
+    assert.equal(gets(requests, "/pipelines"), 1);
+  });
+
+  it("refetches after the TTL of the kind", async () => {
+    const { call, requests } = setup({ cache: { ttl: { pipelines: 0.05 } } }, () => ok([]));
+    await call("pipedrive_list_pipelines");
+    await call("pipedrive_list_stages");
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    await call("pipedrive_list_pipelines");
+    await call("pipedrive_list_stages");
+    assert.equal(gets(requests, "/pipelines"), 2);
+    assert.equal(gets(requests, "/stages"), 1);
+  });
+
+  it("persists entries across restarts", async () => {
+    const path = join(await mkdtemp(join(tmpdir(), "pipedrive-cache-")), "cache.json");
+    const first = setup({ cache: { persist: true, path } }, () => ok([{ id: 1, name: "Sales" }]));
+    await first.call("pipedrive_list_pipelines");
+    for (let i = 0; i < 50 && !(await readFile(path, "utf8").catch(() => "")).includes("Sales"); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    const second = setup({ cache: { persist: true, path } }, () => ok([{ id: 1, name: "Renamed" }]));
+    const { body } = await second.call("pipedrive_list_pipelines");
+    assert.equal(body[0].name, "Sales");
+    assert.equal(second.requests.length, 0);
+  });
+});
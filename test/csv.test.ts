@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseCsv, toCsv } from "../index.ts";
+
+describe("parseCsv", () => {
+  it("maps rows onto the header and trims column names", () => {
+    assert.deepEqual(parseCsv("name , email\nAda,ada@example.com\nBob,bob@example.com\n"), [
+      { name: "Ada", email: "ada@example.com" },
+      { name: "Bob", email: "bob@example.com" },
+    ]);
+  });
+
+  it("handles quoted fields with separators, escaped quotes and line breaks", () => {
+    const rows = parseCsv('name,note\r\n"Acme, Inc.","said ""hi""\r\nthen left"\r\n');
+    assert.deepEqual(rows, [{ name: "Acme, Inc.", note: 'said "hi"\r\nthen left' }]);
+  });
+
+  it("detects semicolon and tab delimiters from the header line", () => {
+    assert.deepEqual(parseCsv("name;city\nAda;Berlin"), [{ name: "Ada", city: "Berlin" }]);
+    assert.deepEqual(parseCsv("name\tcity\nAda\tBerlin"), [{ name: "Ada", city: "Berlin" }]);
+  });
+
+  it("strips a byte order mark, skips blank lines and pads short rows", () => {
+    assert.deepEqual(parseCsv("\uFEFFname,email\n\nAda\n,\n"), [{ name: "Ada", email: "" }]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells that need it and round-trips through parseCsv", () => {
+    const rows = [{ name: 'Acme "West", Inc.', tags: ["a", "b"], owner: null }];
+    const csv = toCsv(rows);
+    assert.match(csv, /^name,tags,owner\r?\n/);
+    assert.deepEqual(parseCsv(csv), [{ name: 'Acme "West", Inc.', tags: '["a","b"]', owner: "" }]);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findDuplicateClusters, normalizePhone, scoreDuplicate, toDuplicateRecord } from "../index.ts";
+
+describe("normalizePhone", () => {
+  it("normalizes international numbers to E.164", () => {
+    assert.equal(normalizePhone("+49 (30) 1234-56"), "+4930123456");
+    assert.equal(normalizePhone("0049 30 123456"), "+4930123456");
+  });
+
+  it("uses the default country code only for national numbers", () => {
+    assert.equal(normalizePhone("030 123456", "+49"), "+4930123456");
+    assert.equal(normalizePhone("030 123456"), "030123456");
+    assert.equal(normalizePhone("n/a"), "");
+  });
+});
+
+describe("scoreDuplicate", () => {
+  const person = (raw: Record<string, unknown>) => toDuplicateRecord("person", raw);
+
+  it("treats a shared email as strong evidence regardless of case", () => {
+    const { confidence, reasons } = scoreDuplicate(
+      "person",
+      person({ id: 1, name: "John Smith", emails: [{ value: "John@Acme.com" }] }),
+      person({ id: 2, name: "Smith, John", emails: ["john@acme.com"] })
+    );
+    assert.ok(confidence >= 0.95);
+    assert.deepEqual(reasons, ["same email john@acme.com", "same name", "same company domain acme.com"]);
+  });
+
+  it("needs more than a common name to flag two people", () => {
+    const a = person({ id: 1, name: "John Smith", org_id: 10 });
+    const b = person({ id: 2, name: "John Smith", org_id: 11 });
+    const c = person({ id: 3, name: "John Smith", org_id: 10 });
+    assert.ok(scoreDuplicate("person", a, b).confidence < 0.8);
+    assert.ok(scoreDuplicate("person", a, c).confidence >= 0.8);
+  });
+
+  it("matches organizations across legal suffixes and website formats", () => {
+    const { confidence, reasons } = scoreDuplicate(
+      "organization",
+      toDuplicateRecord("organization", { id: 1, name: "Acme Inc.", website: "https://www.acme.com/about" }),
+      toDuplicateRecord("organization", { id: 2, name: "ACME", website: "acme.com" })
+    );
+    assert.ok(confidence >= 0.95);
+    assert.deepEqual(reasons, ["same website domain acme.com", "same name"]);
+  });
+});
+
+describe("findDuplicateClusters", () => {
+  it("chains matches into one cluster and suggests keeping the oldest record", () => {
+    const records = [
+      { id: 1, name: "John Smith", emails: ["john@acme.com"], add_time: "2021-05-01 10:00:00" },
+      { id: 2, name: "J. Smith", emails: ["john@acme.com"], phones: ["+1 555 0100"], add_time: "2019-01-01 10:00:00" },
+      { id: 3, name: "Johnny", phones: ["001 555 0100"], add_time: "2020-01-01 10:00:00" },
+      { id: 4, name: "Mary Jones", emails: ["mary@example.com"], add_time: "2018-01-01 10:00:00" },
+    ].map((raw) => toDuplicateRecord("person", raw));
+
+    const clusters = findDuplicateClusters("person", records, 0.8);
+    assert.equal(clusters.length, 1);
+    assert.deepEqual(
+      clusters[0].records.map((record) => record.id),
+      [1, 2, 3]
+    );
+    assert.equal(clusters[0].keep_id, 2);
+    assert.deepEqual(
+      clusters[0].matches.map((match) => match.ids),
+      [
+        [1, 2],
+        [2, 3],
+      ]
+    );
+  });
+
+  it("drops matches below the confidence threshold", () => {
+    const records = [
+      { id: 1, name: "John Smith" },
+      { id: 2, name: "John Smith" },
+    ].map((raw) => toDuplicateRecord("person", raw));
+    assert.equal(findDuplicateClusters("person", records, 0.8).length, 0);
+    assert.equal(findDuplicateClusters("person", records, 0.5).length, 1);
+  });
+});
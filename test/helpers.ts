@@ -0,0 +1,49 @@
+import register from "../index.ts";
+
+export type SentRequest = { method: string; url: URL; headers: Headers; body?: string };
+export type Handler = (request: SentRequest) => Response | Promise<Response>;
+
+export function ok(data: unknown, additional_data: Record<string, unknown> = {}) {
+  return new Response(JSON.stringify({ success: true, data, additional_data }));
+}
+
+export function apiError(status: number, error: string, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify({ success: false, error }), { status, headers });
+}
+
+// Registers the plugin against a fake host with fetch mocked by handler. Returns a way to call
+// tools by name and every request the plugin sent, in order.
+export function setup(config: Record<string, unknown>, handler: Handler) {
+  const requests: SentRequest[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const request = {
+      method: init?.method ?? "GET",
+      url: new URL(String(input)),
+      headers: new Headers(init?.headers),
+      body: typeof init?.body === "string" || init?.body instanceof URLSearchParams ? String(init.body) : undefined,
+    };
+    requests.push(request);
+    return handler(request);
+  }) as typeof fetch;
+
+  const tools = new Map<string, { execute: (id: string, params: Record<string, unknown>) => Promise<any> }>();
+  const log = console.log;
+  console.log = () => {};
+  try {
+    register({
+      pluginConfig: { apiKey: "test-key", domain: "acme", audit: { enabled: false }, ...config },
+      registerTool: (tool: { name: string; execute: any }) => tools.set(tool.name, tool),
+    });
+  } finally {
+    console.log = log;
+  }
+
+  async function call(name: string, params: Record<string, unknown> = {}) {
+    const tool = tools.get(name);
+    if (!tool) throw new Error(`Tool ${name} is not registered`);
+    const result = await tool.execute("test-call", params);
+    return { isError: !!result.isError, body: JSON.parse(result.content[0].text) };
+  }
+
+  return { call, requests, tools };
+}
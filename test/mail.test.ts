@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { cleanMailBody } from "../index.ts";
+
+describe("cleanMailBody", () => {
+  it("cuts Gmail quoted history and the signature block", () => {
+    const body = [
+      '<div dir="ltr"><p>Hi Ann,</p><p>Tuesday at 3pm works for us.</p>',
+      '<div>--&nbsp;</div><div>Bob Miller<br>Acme Corp</div></div>',
+      '<div class="gmail_quote"><div class="gmail_attr">On Mon, Mar 2, 2026 at 10:02 AM Ann wrote:</div>',
+      "<blockquote>Does Tuesday work?</blockquote></div>",
+    ].join("");
+    assert.deepEqual(cleanMailBody(body), {
+      text: "Hi Ann,\nTuesday at 3pm works for us.",
+      quoted_removed: true,
+      signature_removed: true,
+    });
+  });
+
+  it("cuts an Outlook reply header and a sign-off", () => {
+    const body = [
+      "Thanks, the contract is signed.",
+      "",
+      "Kind regards,",
+      "Bob Miller",
+      "Head of Sales",
+      "",
+      "From: Ann Lee <ann@example.com>",
+      "Sent: Monday, March 2, 2026 10:02 AM",
+      "To: Bob Miller <bob@acme.com>",
+      "Subject: Contract",
+      "",
+      "Please sign the attached contract.",
+    ].join("\n");
+    assert.deepEqual(cleanMailBody(body), { text: "Thanks, the contract is signed.", quoted_removed: true, signature_removed: true });
+  });
+
+  it("cuts plain-text quotes introduced by a wrapped \"wrote:\" line", () => {
+    const body = [
+      "Sounds good, see you then.",
+      "",
+      "On Mon, 2 Mar 2026 at 10:02, Ann Lee <ann@example.com>",
+      "wrote:",
+      "> Does Tuesday work?",
+    ].join("\n");
+    assert.deepEqual(cleanMailBody(body), { text: "Sounds good, see you then.", quoted_removed: true, signature_removed: false });
+  });
+
+  it("drops inline > lines but keeps a body that is only a quote", () => {
+    assert.equal(cleanMailBody("> earlier point\nAgreed.").text, "Agreed.");
+    assert.deepEqual(cleanMailBody("> just a forward"), { text: "> just a forward", quoted_removed: false, signature_removed: false });
+  });
+
+  it("leaves a message without quotes or signature alone", () => {
+    assert.deepEqual(cleanMailBody("Can we move the call to Friday?"), {
+      text: "Can we move the call to Friday?",
+      quoted_removed: false,
+      signature_removed: false,
+    });
+  });
+});
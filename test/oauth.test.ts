@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { apiError, ok, setup } from "./helpers.ts";
+
+const TOKEN_URL = "https://oauth.pipedrive.com/oauth/token";
+
+async function oauthConfig(refreshToken = "refresh-1") {
+  const tokenPath = join(await mkdtemp(join(tmpdir(), "pipedrive-oauth-")), "tokens.json");
+  return { apiKey: undefined, oauth: { clientId: "app", clientSecret: "app-secret", refreshToken, accessToken: "access-1", tokenPath } };
+}
+
+const bearer = (request: { headers: Headers }) => request.headers.get("authorization");
+
+describe("OAuth", () => {
+  it("refreshes on 401, replays the request and persists the rotated tokens", async () => {
+    const config = await oauthConfig();
+    const { call, requests } = setup(config, (request) => {
+      if (request.url.href === TOKEN_URL) {
+        return new Response(JSON.stringify({ access_token: "access-2", refresh_token: "refresh-2", expires_in: 3600 }));
+      }
+      return bearer(request) === "Bearer access-2" ? ok({ id: 5, title: "Acme" }) : apiError(401, "unauthorized");
+    });
+
+    const result = await call("pipedrive_get_deal", { id: 5 });
+    assert.equal(result.isError, false);
+    assert.equal(result.body.title, "Acme");
+    const deals = requests.filter((request) => request.url.pathname.endsWith("/deals/5"));
+    assert.deepEqual(deals.map(bearer), ["Bearer access-1", "Bearer access-2"]);
+
+    const refresh = requests.find((request) => request.url.href === TOKEN_URL)!;
+    assert.equal(new URLSearchParams(refresh.body).get("refresh_token"), "refresh-1");
+    assert.equal(bearer(refresh), `Basic ${Buffer.from("app:app-secret").toString("base64")}`);
+
+    const saved = JSON.parse(await readFile(config.oauth.tokenPath, "utf8"));
+    assert.equal(saved.refresh_token, "refresh-2");
+    assert.equal(saved.seeded_from, "refresh-1");
+    assert.equal((await stat(config.oauth.tokenPath)).mode & 0o777, 0o600);
+  });
+
+  it("discards the saved tokens when the refresh token is rejected", async () => {
+    const config = await oauthConfig();
+    await writeFile(config.oauth.tokenPath, JSON.stringify({ access_token: "stale", refresh_token: "revoked", expires_at: 0 }));
+    const { call, requests } = setup(config, (request) =>
+      request.url.href === TOKEN_URL ? apiError(400, "invalid_grant") : apiError(401, "unauthorized")
+    );
+
+    const result = await call("pipedrive_get_deal", { id: 5 });
+    assert.equal(result.isError, true);
+    assert.equal(result.body.error.category, "auth");
+    assert.match(result.body.error.hint, /oauth\.refreshToken/);
+    assert.equal(new URLSearchParams(requests.find((request) => request.url.href === TOKEN_URL)!.body).get("refresh_token"), "revoked");
+    await assert.rejects(stat(config.oauth.tokenPath), { code: "ENOENT" });
+
+    // The next call starts over from config
+    await call("pipedrive_get_deal", { id: 5 });
+    assert.equal(bearer(requests.filter((request) => request.url.pathname.endsWith("/deals/5")).at(-1)!), "Bearer access-1");
+  });
+
+  it("prefers a changed refresh token in config over the saved chain", async () => {
+    const config = await oauthConfig("refresh-new");
+    await writeFile(
+      config.oauth.tokenPath,
+      JSON.stringify({ access_token: "saved", refresh_token: "refresh-9", expires_at: 0, seeded_from: "refresh-old" })
+    );
+    const { call, requests } = setup(config, () => ok({ id: 5 }));
+    await call("pipedrive_get_deal", { id: 5 });
+    assert.equal(bearer(requests[0]), "Bearer access-1");
+  });
+});
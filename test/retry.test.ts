@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createTokenBucket, parseRetryAfter } from "../index.ts";
+import { apiError, ok, setup } from "./helpers.ts";
+
+const retry = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, requestsPerSecond: 1000, burst: 1000 };
+
+describe("parseRetryAfter", () => {
+  it("reads delta-seconds", () => {
+    assert.equal(parseRetryAfter("2"), 2000);
+    assert.equal(parseRetryAfter("0"), 0);
+  });
+
+  it("reads an HTTP date", () => {
+    const ms = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString());
+    assert.ok(ms !== undefined && ms > 8000 && ms <= 10_000);
+  });
+
+  it("ignores missing or unreadable values", () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter("soon"), undefined);
+  });
+});
+
+describe("createTokenBucket", () => {
+  it("starts empty after a pause instead of refilling across it", async () => {
+    const bucket = createTokenBucket(20, 20);
+    const start = Date.now();
+    bucket.pauseUntil(start + 50);
+    for (let i = 0; i < 3; i++) await bucket.take();
+    // 50ms pause, then one token every 50ms
+    assert.ok(Date.now() - start >= 190, `took ${Date.now() - start}ms`);
+  });
+});
+
+describe("request retries", () => {
+  it("retries a rate-limited GET after Retry-After", async () => {
+    let calls = 0;
+    const { call, requests } = setup({ retry }, ({ url }) => {
+      if (url.pathname.endsWith("Fields")) return ok([]);
+      return ++calls === 1 ? apiError(429, "Too many requests", { "retry-after": "0" }) : ok({ id: 5, title: "Acme" });
+    });
+    const result = await call("pipedrive_get_deal", { id: 5 });
+    assert.equal(result.isError, false);
+    assert.equal(result.body.title, "Acme");
+    assert.equal(requests.filter((request) => request.url.pathname.endsWith("/deals/5")).length, 2);
+  });
+
+  it("caps a long Retry-After at maxDelayMs for every caller", async () => {
+    let calls = 0;
+    const { call } = setup({ retry }, ({ url }) => {
+      if (url.pathname.endsWith("Fields")) return ok([]);
+      return ++calls === 1 ? apiError(429, "Too many requests", { "retry-after": "60" }) : ok({ id: 5, title: "Acme" });
+    });
+    const start = Date.now();
+    const [first, second] = await Promise.all([call("pipedrive_get_deal", { id: 5 }), call("pipedrive_get_deal", { id: 6 })]);
+    assert.equal(first.isError || second.isError, false);
+    assert.ok(Date.now() - start < 1000, `took ${Date.now() - start}ms`);
+  });
+
+  it("retries server errors on GET up to maxRetries", async () => {
+    const { call, requests } = setup({ retry }, () => apiError(503, "Unavailable"));
+    const result = await call("pipedrive_get_deal", { id: 5 });
+    assert.equal(requests.length, 3); // the first try and two retries
+    assert.equal(result.isError, true);
+    assert.equal(result.body.error.category, "server");
+    assert.equal(result.body.error.retryable, true);
+  });
+
+  it("does not replay a POST that failed with a server error", async () => {
+    const { call, requests } = setup({ retry }, () => apiError(500, "Internal error"));
+    const result = await call("pipedrive_create_organization", { name: "Acme" });
+    assert.equal(requests.length, 1);
+    assert.equal(result.isError, true);
+  });
+
+  it("replays a rate-limited POST", async () => {
+    let calls = 0;
+    const { call, requests } = setup({ retry }, () =>
+      ++calls === 1 ? apiError(429, "Too many requests", { "retry-after": "0" }) : ok({ id: 9, name: "Acme" })
+    );
+    const result = await call("pipedrive_create_organization", { name: "Acme" });
+    assert.equal(result.isError, false);
+    assert.deepEqual(requests.map((request) => request.method), ["POST", "POST"]);
+  });
+
+  it("sends the API token in a header, not the URL", async () => {
+    const { call, requests } = setup({ retry }, () => ok({ id: 5 }));
+    await call("pipedrive_get_deal", { id: 5 });
+    assert.equal(requests[0].url.searchParams.get("api_token"), null);
+  });
+});
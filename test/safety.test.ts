@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ok, setup } from "./helpers.ts";
+
+const deal = { id: 5, title: "Acme", value: 1000 };
+
+describe("confirmDestructive", () => {
+  it("previews a delete, then performs it with the confirm_token", async () => {
+    const { call, requests } = setup({ confirmDestructive: true }, () => ok(deal));
+
+    const preview = await call("pipedrive_delete_deal", { id: 5 });
+    assert.equal(preview.body.confirmation_required, true);
+    assert.equal(preview.body.requests[0].method, "DELETE");
+    assert.deepEqual(preview.body.requests[0].current, deal);
+    assert.deepEqual(requests.map((request) => request.method), ["GET"]);
+
+    const result = await call("pipedrive_delete_deal", { id: 5, confirm_token: preview.body.confirm_token });
+    assert.equal(result.isError, false);
+    assert.equal(requests.filter((request) => request.method === "DELETE").length, 1);
+  });
+
+  it("rejects a token that is reused or was issued for other parameters", async () => {
+    const { call, requests } = setup({ confirmDestructive: true }, () => ok(deal));
+
+    const preview = await call("pipedrive_delete_deal", { id: 5 });
+    const mismatch = await call("pipedrive_delete_deal", { id: 6, confirm_token: preview.body.confirm_token });
+    assert.equal(mismatch.isError, true);
+    assert.equal(mismatch.body.error.category, "validation");
+    assert.equal(mismatch.body.error.field, "confirm_token");
+
+    // Single use: the failed attempt spent it
+    const reused = await call("pipedrive_delete_deal", { id: 5, confirm_token: preview.body.confirm_token });
+    assert.equal(reused.isError, true);
+
+    const token = (await call("pipedrive_delete_deal", { id: 5 })).body.confirm_token;
+    const otherTool = await call("pipedrive_delete_person", { id: 5, confirm_token: token });
+    assert.equal(otherTool.isError, true);
+    assert.equal(requests.filter((request) => request.method === "DELETE").length, 0);
+  });
+
+  it("runs tools that only create records without a preview", async () => {
+    const { call, requests } = setup({ confirmDestructive: true }, () => ok({ id: 9, name: "Acme" }));
+    const result = await call("pipedrive_create_organization", { name: "Acme" });
+    assert.equal(result.body.confirmation_required, undefined);
+    assert.deepEqual(requests.map((request) => request.method), ["POST"]);
+  });
+});
+
+describe("dry_run", () => {
+  it("returns the requests that would be sent and sends none", async () => {
+    const { call, requests } = setup({}, () => ok(deal));
+    const result = await call("pipedrive_update_deal", { id: 5, title: "Acme renewal", dry_run: true });
+    assert.equal(result.body.dry_run, true);
+    assert.equal(result.body.requests.length, 1);
+    assert.equal(result.body.requests[0].method, "PATCH");
+    assert.equal(result.body.requests[0].url, "https://acme.pipedrive.com/api/v2/deals/5");
+    assert.deepEqual(result.body.requests[0].body, { title: "Acme renewal" });
+    assert.equal(requests.filter((request) => request.method !== "GET").length, 0);
+  });
+
+  it("skips the confirmation round trip", async () => {
+    const { call, requests } = setup({ confirmDestructive: true }, () => ok(deal));
+    const result = await call("pipedrive_delete_deal", { id: 5, dry_run: true });
+    assert.equal(result.body.dry_run, true);
+    assert.equal(result.body.confirm_token, undefined);
+    assert.equal(requests.length, 0);
+  });
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { expandRecurrence, parseWhen, zonedToUtc } from "../index.ts";
+
+const iso = (ms: number) => new Date(ms).toISOString().slice(0, 16);
+
+describe("zonedToUtc", () => {
+  it("converts ordinary wall-clock times with the offset in force", () => {
+    assert.equal(iso(zonedToUtc("2026-01-15", "09:00", "America/New_York")), "2026-01-15T14:00");
+    assert.equal(iso(zonedToUtc("2026-07-15", "09:00", "Europe/Berlin")), "2026-07-15T07:00");
+  });
+
+  it("moves times skipped by the spring change forward by the gap", () => {
+    // 02:30 does not exist; it becomes 03:30 local time
+    assert.equal(iso(zonedToUtc("2026-03-08", "02:30", "America/New_York")), "2026-03-08T07:30");
+    assert.equal(iso(zonedToUtc("2026-03-29", "02:30", "Europe/Berlin")), "2026-03-29T01:30");
+  });
+
+  it("picks the first occurrence of times repeated by the autumn change", () => {
+    assert.equal(iso(zonedToUtc("2026-11-01", "01:30", "America/New_York")), "2026-11-01T05:30");
+    assert.equal(iso(zonedToUtc("2026-10-25", "02:30", "Europe/Berlin")), "2026-10-25T00:30");
+  });
+});
+
+describe("parseWhen", () => {
+  // Thursday 2026-03-05, 11:00 in Berlin
+  const now = Date.parse("2026-03-05T10:00:00Z");
+  const when = (text: string) => parseWhen(text, "Europe/Berlin", undefined, now);
+
+  it("understands relative days, weekdays and times", () => {
+    assert.deepEqual(when("tomorrow at 9:30"), { date: "2026-03-06", time: "09:30" });
+    assert.deepEqual(when("next tuesday 3pm"), { date: "2026-03-10", time: "15:00" });
+    assert.deepEqual(when("thursday"), { date: "2026-03-12", time: undefined });
+    assert.deepEqual(when("in 2 business days"), { date: "2026-03-09", time: undefined });
+    assert.deepEqual(when("2026-04-01 noon"), { date: "2026-04-01", time: "12:00" });
+  });
+
+  it("counts hours from now in the given timezone", () => {
+    assert.deepEqual(when("in 3 hours"), { date: "2026-03-05", time: "14:00" });
+    assert.deepEqual(parseWhen("in 14 hours", "America/New_York", undefined, now), { date: "2026-03-05", time: "19:00" });
+  });
+
+  it("rejects text it cannot read", () => {
+    assert.throws(() => when("sometime soon"), /Could not understand "sometime soon"/);
+    assert.throws(() => when("tomorrow 25:00"), /Could not understand/);
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("keeps the day of month, clamped to shorter months", () => {
+    assert.deepEqual(expandRecurrence("2026-01-31", { every: "month", count: 4 }), [
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+    ]);
+  });
+
+  it("skips non-working days for weekday series", () => {
+    assert.deepEqual(expandRecurrence("2026-03-06", { every: "weekday", count: 3 }), ["2026-03-06", "2026-03-09", "2026-03-10"]);
+    assert.deepEqual(expandRecurrence("2026-03-06", { every: "weekday", count: 2 }, [0, 6]), ["2026-03-06", "2026-03-07"]);
+  });
+
+  it("stops at until and applies the interval", () => {
+    assert.deepEqual(expandRecurrence("2026-03-02", { every: "week", interval: 2, until: "2026-03-30" }), [
+      "2026-03-02",
+      "2026-03-16",
+      "2026-03-30",
+    ]);
+  });
+
+  it("requires an end", () => {
+    assert.throws(() => expandRecurrence("2026-03-02", { every: "day" }), /needs count or until/);
+  });
+});
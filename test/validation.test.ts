@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ok, setup } from "./helpers.ts";
+
+describe("parameter validation", () => {
+  it("rejects a value outside a closed set before sending anything", async () => {
+    const { call, requests } = setup({}, () => ok([]));
+    const result = await call("pipedrive_list_leads", { archived_status: "deleted" });
+    assert.equal(result.isError, true);
+    assert.deepEqual(result.body.error, {
+      category: "validation",
+      message: 'Invalid archived_status "deleted"',
+      field: "archived_status",
+      hint: "Use one of: archived, not_archived, all",
+      retryable: false,
+    });
+    assert.equal(requests.length, 0);
+  });
+
+  it("lists the saved filter types", async () => {
+    const { call } = setup({}, () => ok([]));
+    const result = await call("pipedrive_list_filters", { type: "leads" });
+    assert.equal(result.body.error.field, "type");
+    assert.equal(result.body.error.hint, "Use one of: deals, persons, organizations, activities");
+  });
+
+  it("reports missing, mistyped and badly formatted parameters together", async () => {
+    const { call, requests } = setup({}, () => ok({ id: 1 }));
+    const result = await call("pipedrive_create_deal", { value: "lots", expected_close_date: "31/03/2026" });
+    assert.equal(result.body.error.category, "validation");
+    assert.equal(result.body.error.field, "title");
+    assert.equal(result.body.error.hint, "Deal title (required)");
+    assert.deepEqual(result.body.error.message.split("; "), [
+      "title is required",
+      'Invalid value "lots": Expected number',
+      'Invalid expected_close_date "31/03/2026"',
+    ]);
+    assert.equal(requests.length, 0);
+  });
+
+  it("gives a format hint for date parameters", async () => {
+    const { call } = setup({}, () => ok({ id: 1 }));
+    const result = await call("pipedrive_create_deal", { title: "Acme", expected_close_date: "next week" });
+    assert.equal(result.body.error.field, "expected_close_date");
+    assert.equal(result.body.error.hint, "Use a YYYY-MM-DD date, e.g. 2026-03-31");
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { normalizeWebhookEvent } from "../index.ts";
+import { ok, setup } from "./helpers.ts";
+
+const receivedAt = new Date("2026-03-03T10:00:00Z");
+
+describe("normalizeWebhookEvent", () => {
+  it("turns a v2 stage change into a change event with a summary", () => {
+    const event = normalizeWebhookEvent(
+      {
+        meta: { action: "change", entity: "deal", entity_id: "42", id: "evt-1", timestamp: "2026-03-03T09:59:58Z", user_id: 7 },
+        data: { id: 42, title: "Acme", stage_id: 3 },
+        previous: { stage_id: 2 },
+      },
+      receivedAt
+    );
+    assert.equal(event.id, "evt-1");
+    assert.equal(event.action, "change");
+    assert.equal(event.entity, "deal");
+    assert.equal(event.entity_id, 42);
+    assert.equal(event.user_id, 7);
+    assert.deepEqual(event.changes, { stage_id: { previous: 2, current: 3 } });
+    assert.equal(event.summary, 'deal 42 "Acme" moved from stage 2 to 3 (fields: stage_id)');
+  });
+
+  it("diffs the full previous record of a v1 update", () => {
+    const event = normalizeWebhookEvent(
+      {
+        meta: { action: "updated", object: "person", id: 8, timestamp: 1_772_532_000 },
+        current: { id: 8, name: "Ann Lee", phone: "+49 30 1234" },
+        previous: { id: 8, name: "Ann Lee", phone: "+49 30 9999" },
+      },
+      receivedAt
+    );
+    assert.equal(event.action, "change");
+    assert.deepEqual(Object.keys(event.changes), ["phone"]);
+    assert.equal(event.timestamp, new Date(1_772_532_000 * 1000).toISOString());
+    assert.equal(event.id, `person-8-${receivedAt.getTime()}`);
+  });
+
+  it("maps v1 added/deleted/merged actions", () => {
+    const action = (name: string) =>
+      normalizeWebhookEvent({ meta: { action: name, object: "organization", id: 1 }, current: { id: 1, name: "Acme" } }).action;
+    assert.equal(action("added"), "create");
+    assert.equal(action("deleted"), "delete");
+    assert.equal(action("merged"), "merge");
+  });
+
+  it("rejects payloads it cannot read", () => {
+    assert.throws(() => normalizeWebhookEvent({ data: {} }), /no meta object/);
+    assert.throws(() => normalizeWebhookEvent({ meta: { action: "viewed", entity: "deal" } }), /Unsupported webhook event/);
+  });
+});
+
+describe("pipedrive_create_webhook", () => {
+  const webhooks = { publicUrl: "https://bot.example.com/pipedrive/webhook", username: "hook", password: "s3cret" };
+
+  it("sends the listener credentials but keeps them out of dry runs", async () => {
+    const { call, requests } = setup({ webhooks }, () => ok({ id: 1 }));
+    const { body } = await call("pipedrive_create_webhook", { event_object: "deal", event_action: "*", dry_run: true });
+    assert.equal(requests.length, 0);
+    assert.equal(body.requests[0].body.subscription_url, "https://bot.example.com/pipedrive/webhook?account=default");
+    assert.equal(body.requests[0].body.http_auth_user, "[redacted]");
+    assert.equal(body.requests[0].body.http_auth_password, "[redacted]");
+
+    await call("pipedrive_create_webhook", { event_object: "deal", event_action: "*" });
+    assert.equal(JSON.parse(requests[0].body!).http_auth_password, "s3cret");
+  });
+
+  it("redacts them in an audit log only the owner can read", async () => {
+    const path = join(await mkdtemp(join(tmpdir(), "pipedrive-audit-")), "audit.jsonl");
+    const { call } = setup({ webhooks, audit: { enabled: true, path } }, () => ok({ id: 1 }));
+    await call("pipedrive_create_webhook", { event_object: "deal", event_action: "*" });
+    const entry = JSON.parse(await readFile(path, "utf8"));
+    assert.equal(entry.request_body.http_auth_password, "[redacted]");
+    assert.ok(!JSON.stringify(entry).includes("s3cret"));
+    assert.equal((await stat(path)).mode & 0o777, 0o600);
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { matchesWhere, planWhere, validateWhere } from "../index.ts";
+import { ok, setup } from "./helpers.ts";
+
+const valueOf = (record: unknown, field: string) => (record as Record<string, unknown>)[field];
+
+describe("matchesWhere", () => {
+  const deal = {
+    title: "Acme renewal",
+    value: 25000,
+    status: "open",
+    update_time: "2026-03-02T09:15:00Z",
+    close_date: null,
+    labels: ["hot", "renewal"],
+    budget: { value: 1200, currency: "EUR" },
+  };
+
+  it("compares numbers, strings and money objects", () => {
+    assert.ok(matchesWhere(deal, { field: "value", op: ">", value: 20000 }, valueOf));
+    assert.ok(!matchesWhere(deal, { field: "value", op: "<", value: "20000" }, valueOf));
+    assert.ok(matchesWhere(deal, { field: "status", value: "OPEN" }, valueOf));
+    assert.ok(matchesWhere(deal, { field: "title", op: "contains", value: "renew" }, valueOf));
+    assert.ok(matchesWhere(deal, { field: "budget", op: "between", value: [1000, 1500] }, valueOf));
+  });
+
+  it("compares timestamps against whole days", () => {
+    assert.ok(matchesWhere(deal, { field: "update_time", value: "2026-03-02" }, valueOf));
+    assert.ok(matchesWhere(deal, { field: "update_time", op: "<=", value: "2026-03-02" }, valueOf));
+    assert.ok(!matchesWhere(deal, { field: "update_time", op: ">", value: "2026-03-02" }, valueOf));
+    assert.ok(matchesWhere({ add_time: "2026-03-02 23:59:59" }, { field: "add_time", op: "<", value: "2026-03-03" }, valueOf));
+  });
+
+  it("treats missing values as empty and unequal", () => {
+    assert.ok(matchesWhere(deal, { field: "close_date", op: "empty" }, valueOf));
+    assert.ok(matchesWhere(deal, { field: "close_date", op: "!=", value: "2026-03-02" }, valueOf));
+    assert.ok(!matchesWhere(deal, { field: "close_date", op: "<", value: "2026-03-02" }, valueOf));
+  });
+
+  it("matches multi-value fields when any value does", () => {
+    assert.ok(matchesWhere(deal, { field: "labels", value: "hot" }, valueOf));
+    assert.ok(matchesWhere(deal, { field: "labels", op: "in", value: ["cold", "renewal"] }, valueOf));
+    assert.ok(!matchesWhere(deal, { field: "labels", op: "!=", value: "hot" }, valueOf));
+  });
+
+  it("combines nested and/or groups", () => {
+    const clause = {
+      and: [
+        { field: "status", value: "open" },
+        { or: [{ field: "value", op: ">=" as const, value: 50000 }, { field: "labels", value: "hot" }] },
+      ],
+    };
+    assert.ok(matchesWhere(deal, clause, valueOf));
+    assert.ok(!matchesWhere({ ...deal, labels: [] }, clause, valueOf));
+  });
+});
+
+describe("planWhere", () => {
+  it("sends supported conditions to the API and keeps the rest client-side", () => {
+    const plan = planWhere(
+      {
+        and: [
+          { field: "owner_id", value: 7 },
+          { field: "update_time", op: ">=", value: "2026-03-01" },
+          { field: "id", op: "in", value: [1, 2, 3] },
+          { field: "value", op: ">", value: 20000 },
+        ],
+      },
+      "deal",
+      new Set()
+    );
+    assert.deepEqual(plan.query, { owner_id: "7", updated_since: "2026-03-01T00:00:00Z", ids: "1,2,3" });
+    assert.deepEqual(plan.client, [{ field: "value", op: ">", value: 20000 }]);
+    assert.equal(plan.api[0], "owner_id = 7 -> owner_id=7");
+  });
+
+  it("leaves parameters the caller already set and fields the entity cannot filter on", () => {
+    const plan = planWhere(
+      {
+        and: [
+          { field: "owner_id", value: 7 },
+          { field: "stage_id", value: 3 },
+        ],
+      },
+      "person",
+      new Set(["owner_id"])
+    );
+    assert.deepEqual(plan.query, {});
+    assert.equal(plan.client.length, 2);
+  });
+
+  it("never splits an or group", () => {
+    const where = { or: [{ field: "owner_id", value: 7 }, { field: "owner_id", value: 8 }] };
+    assert.deepEqual(planWhere(where, "deal", new Set()), { query: {}, api: [], client: [where] });
+  });
+});
+
+describe("validateWhere", () => {
+  it("rejects malformed clauses with a message naming the problem", () => {
+    assert.throws(() => validateWhere({ field: "value", op: "~", value: 1 }), /Invalid where operator "~" for value/);
+    assert.throws(() => validateWhere({ and: [{ field: "value", op: "between", value: 1 }] }), /between needs a \[from, to\] value/);
+    assert.throws(() => validateWhere({ value: 1 }), /expected \{ field, op, value \}/);
+    assert.doesNotThrow(() => validateWhere({ or: [{ field: "status", value: "open" }, { field: "value", op: "empty" }] }));
+  });
+});
+
+describe("client-side where on list tools", () => {
+  const deals = [1, 2, 3, 4, 5].map((id) => ({ id, title: `Deal ${id}`, value: id * 10_000 }));
+  const handler = ({ url }: { url: URL }) => (url.pathname.endsWith("Fields") ? ok([]) : ok(deals, { next_cursor: "after-5" }));
+  const where = { field: "value", op: ">=", value: 30_000 };
+
+  it("keeps the scan cursor when every match fits in limit", async () => {
+    const { call } = setup({}, handler);
+    const { body } = await call("pipedrive_list_deals", { where, max_items: 5, limit: 10, format: "full" });
+    assert.deepEqual(body.data.map((deal: { id: number }) => deal.id), [3, 4, 5]);
+    assert.equal(body.additional_data.next_cursor, "after-5");
+    assert.equal(body.additional_data.truncated, true);
+  });
+
+  it("drops the cursor when limit cuts off matches", async () => {
+    const { call } = setup({}, handler);
+    const { body } = await call("pipedrive_list_deals", { where, max_items: 5, limit: 2, format: "full" });
+    assert.deepEqual(body.data.map((deal: { id: number }) => deal.id), [3, 4]);
+    assert.equal(body.additional_data.next_cursor, undefined);
+    assert.equal(body.additional_data.truncated, true);
+    assert.equal(body.additional_data.where.matched, 3);
+  });
+});
+
+describe("pipedrive_run_filter", () => {
+  it("rejects sort_by for filters that are not on deals", async () => {
+    const { call } = setup({}, ({ url }) => (url.pathname.endsWith("/filters/7") ? ok({ id: 7, name: "VIPs", type: "people" }) : ok([])));
+    const { isError, body } = await call("pipedrive_run_filter", { filter_id: 7, sort_by: "add_time" });
+    assert.equal(isError, true);
+    assert.equal(body.error.field, "sort_by");
+  });
+});